@@ -2,13 +2,25 @@
  * Environment Configuration
  */
 
-export type Environment = 'local' | 'dev' | 'staging' | 'production';
+export type Environment = 'local' | 'dev' | 'staging' | 'preview' | 'production';
+
+/**
+ * A submission outcome an environment knowingly accepts instead of a confirmation
+ */
+export interface SubmissionTolerance {
+  status: 'validation-rejected' | 'server-error' | 'unknown';
+  /** Only tolerate server errors whose message contains this text */
+  messageIncludes?: string;
+  /** Why this environment cannot confirm submissions */
+  reason: string;
+}
 
 export interface EnvironmentConfig {
   baseURL: string;
   apiURL?: string;
   timeout: number;
   retries: number;
+  submissionTolerances?: SubmissionTolerance[];
 }
 
 export const environments: Record<Environment, EnvironmentConfig> = {
@@ -29,6 +41,18 @@ export const environments: Record<Environment, EnvironmentConfig> = {
     timeout: 30000,
     retries: 2
   },
+  preview: {
+    baseURL: 'https://playwright-poc-ui.vercel.app',
+    timeout: 180000,
+    retries: 1,
+    submissionTolerances: [
+      {
+        status: 'server-error',
+        messageIncludes: 'Journey not found',
+        reason: 'The prototype UI deployed to Vercel has no journey store, so submissions cannot be confirmed'
+      }
+    ]
+  },
   production: {
     baseURL: 'https://example.com',
     apiURL: 'https://api.example.com',
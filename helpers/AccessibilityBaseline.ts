@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page, TestInfo } from '@playwright/test';
+import { AxeResults, NodeResult } from 'axe-core';
+import { AccessibilityViolation, ScannedPageState } from './JourneyAccessibility';
+
+/**
+ * Accessibility Baseline
+ * Known accessibility violations, committed in test-data/a11y-baseline.json
+ * and keyed by page, rule id and the fingerprint of each failing element
+ *
+ * Tests fail on any violation not in the baseline, and flag baseline entries
+ * that no longer occur. After a run, `npm run a11y:baseline` drops the fixed
+ * entries from the file; `npm run a11y:baseline -- --accept-new` also adds
+ * the new ones.
+ *
+ * Example usage:
+ * ```typescript
+ * const results = await new AccessibilityHelper(page).scanWCAG_AA();
+ * const comparison = AccessibilityBaseline.load().check(testInfo, AccessibilityBaseline.pageKey(page.url()),
+ *   AccessibilityBaseline.violationsFrom(results));
+ * expect(comparison.new, AccessibilityBaseline.describe(comparison)).toEqual([]);
+ * ```
+ */
+
+export interface BaselineRule {
+  impact?: string | null;
+  help?: string;
+  /** Fingerprints of the failing elements */
+  targets: string[];
+}
+
+export interface AccessibilityBaselineFile {
+  /** Rules by id, for each page key */
+  pages: Record<string, Record<string, BaselineRule>>;
+}
+
+export interface BaselineViolation {
+  rule: string;
+  target: string;
+}
+
+export interface BaselineComparison {
+  pageKey: string;
+  /** Violations the baseline does not know about */
+  new: BaselineViolation[];
+  /** Baseline entries that no longer occur */
+  fixed: BaselineViolation[];
+}
+
+export interface BaselineUpdate {
+  removed: number;
+  added: number;
+}
+
+/**
+ * Violations seen during a test, written to its output directory for the update command
+ */
+export interface ObservedViolations {
+  pages: Record<string, AccessibilityViolation[]>;
+}
+
+export class AccessibilityBaseline {
+
+  /** File name written into each test's output directory */
+  static readonly OBSERVED_FILE_NAME = 'a11y-observed.json';
+
+  constructor(private file: AccessibilityBaselineFile = { pages: {} }) {}
+
+  /**
+   * Path of the committed baseline - set A11Y_BASELINE_FILE to use another
+   */
+  static defaultPath(): string {
+    return process.env.A11Y_BASELINE_FILE || path.resolve(__dirname, '../test-data/a11y-baseline.json');
+  }
+
+  /**
+   * Load a baseline, or an empty one if the file does not exist
+   */
+  static load(filePath: string = this.defaultPath()): AccessibilityBaseline {
+    if (!fs.existsSync(filePath)) {
+      return new AccessibilityBaseline();
+    }
+    return new AccessibilityBaseline(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  }
+
+  /**
+   * Write the baseline, with pages and rules in a stable order
+   */
+  save(filePath: string = AccessibilityBaseline.defaultPath()): void {
+    const pages: AccessibilityBaselineFile['pages'] = {};
+    for (const pageKey of Object.keys(this.file.pages).sort()) {
+      const rules = this.file.pages[pageKey];
+      if (Object.keys(rules).length === 0) {
+        continue;
+      }
+      pages[pageKey] = {};
+      for (const rule of Object.keys(rules).sort()) {
+        pages[pageKey][rule] = { ...rules[rule], targets: [...rules[rule].targets].sort() };
+      }
+    }
+
+    fs.writeFileSync(filePath, JSON.stringify({ pages }, null, 2) + '\n');
+  }
+
+  /**
+   * Key for a page in the baseline - the URL path, plus the heading and state for journey pages
+   */
+  static pageKey(url: string, heading?: string, state: ScannedPageState = 'page'): string {
+    const key = heading ? `${new URL(url).pathname} | ${heading}` : new URL(url).pathname;
+    return state === 'errors' ? `${key} | errors` : key;
+  }
+
+  /**
+   * Whether a page is showing errors - an error summary or an inline error -
+   * for the state part of its page key
+   */
+  static async pageState(page: Page): Promise<ScannedPageState> {
+    const errors = await page.locator('.govuk-error-summary, .govuk-error-message').first().isVisible().catch(() => false);
+    return errors ? 'errors' : 'page';
+  }
+
+  /**
+   * Fingerprint of a failing element's target selector, stable across runs
+   */
+  static fingerprint(target: string): string {
+    return target.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Summarise an axe scan's violations
+   */
+  static violationsFrom(results: Pick<AxeResults, 'violations'>): AccessibilityViolation[] {
+    return results.violations.map(violation => ({
+      id: violation.id,
+      impact: violation.impact,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      nodes: violation.nodes.length,
+      targets: violation.nodes.flatMap((node: NodeResult) => node.target).map(String)
+    }));
+  }
+
+  /**
+   * Compare a page's violations with the baseline
+   *
+   * Violations listed under a URL path alone are tolerated on every journey
+   * page at that path, whatever its heading or state. Only the page's own
+   * entries are reported as fixed.
+   */
+  compare(pageKey: string, violations: AccessibilityViolation[]): BaselineComparison {
+    const known = this.file.pages[pageKey] || {};
+    const pathWide = this.file.pages[AccessibilityBaseline.pathOf(pageKey)] || {};
+    const observed = AccessibilityBaseline.flatten(violations);
+
+    return {
+      pageKey,
+      new: observed.filter(({ rule, target }) =>
+        !known[rule]?.targets.includes(target) && !pathWide[rule]?.targets.includes(target)),
+      fixed: Object.entries(known).flatMap(([rule, entry]) => entry.targets
+        .filter(target => !observed.some(violation => violation.rule === rule && violation.target === target))
+        .map(target => ({ rule, target })))
+    };
+  }
+
+  /**
+   * Compare a page's violations with the baseline, recording them for the update
+   * command and flagging fixed entries on the test
+   */
+  check(testInfo: TestInfo, pageKey: string, violations: AccessibilityViolation[]): BaselineComparison {
+    AccessibilityBaseline.record(testInfo, pageKey, violations);
+
+    const comparison = this.compare(pageKey, violations);
+    if (comparison.fixed.length > 0) {
+      const fixed = comparison.fixed.map(({ rule, target }) => `${rule} (${target})`).join(', ');
+      testInfo.annotations.push({ type: 'a11y-baseline-fixed', description: `${pageKey}: ${fixed}` });
+      console.log(`Fixed accessibility violations on ${pageKey}: ${fixed} - run npm run a11y:baseline to tighten the baseline`);
+    }
+
+    return comparison;
+  }
+
+  /**
+   * Describe the new violations in a comparison
+   */
+  static describe(comparison: BaselineComparison): string {
+    if (comparison.new.length === 0) {
+      return `No new accessibility violations on ${comparison.pageKey}`;
+    }
+    return `New accessibility violations on ${comparison.pageKey} (not in the baseline):\n` +
+      comparison.new.map(({ rule, target }) => `  - ${rule}: ${target}`).join('\n');
+  }
+
+  /**
+   * Add a page's violations to the current test's observed violations file
+   */
+  static record(testInfo: TestInfo, pageKey: string, violations: AccessibilityViolation[]): void {
+    const filePath = testInfo.outputPath(this.OBSERVED_FILE_NAME);
+    const observed: ObservedViolations = fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      : { pages: {} };
+
+    observed.pages[pageKey] = violations;
+    fs.writeFileSync(filePath, JSON.stringify(observed, null, 2));
+  }
+
+  /**
+   * Update the baseline for the pages a run scanned - drop entries that no
+   * longer occur and, with `acceptNew`, add the new ones
+   * Pages the run did not scan are left as they are.
+   */
+  ratchet(observed: ObservedViolations, options: { acceptNew?: boolean } = {}): BaselineUpdate {
+    const update: BaselineUpdate = { removed: 0, added: 0 };
+
+    for (const [pageKey, violations] of Object.entries(observed.pages)) {
+      const comparison = this.compare(pageKey, violations);
+      const rules = this.file.pages[pageKey] || {};
+
+      for (const { rule, target } of comparison.fixed) {
+        rules[rule].targets = rules[rule].targets.filter(known => known !== target);
+        if (rules[rule].targets.length === 0) {
+          delete rules[rule];
+        }
+        update.removed++;
+      }
+
+      if (options.acceptNew) {
+        for (const { rule, target } of comparison.new) {
+          const violation = violations.find(candidate => candidate.id === rule);
+          rules[rule] = rules[rule] || { impact: violation?.impact, help: violation?.help, targets: [] };
+          rules[rule].targets.push(target);
+          update.added++;
+        }
+      }
+
+      this.file.pages[pageKey] = rules;
+    }
+
+    return update;
+  }
+
+  /**
+   * The URL path a page key starts with
+   */
+  private static pathOf(pageKey: string): string {
+    return pageKey.split(' | ')[0];
+  }
+
+  private static flatten(violations: AccessibilityViolation[]): BaselineViolation[] {
+    const flattened = violations.flatMap(violation => violation.targets.map(target => ({
+      rule: violation.id,
+      target: this.fingerprint(target)
+    })));
+
+    return flattened.filter((violation, index) => flattened.findIndex(other =>
+      other.rule === violation.rule && other.target === violation.target) === index);
+  }
+}
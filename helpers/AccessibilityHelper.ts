@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
 import AxeBuilder from '@axe-core/playwright';
+import { AccessibilityReport } from './AccessibilityReport';
 
 /**
  * Accessibility Helper
@@ -10,6 +11,7 @@ export class AccessibilityHelper {
 
   /**
    * Run axe accessibility scan on current page
+   * The results are attached to the running test for the accessibility report
    */
   async scanPage(options?: {
     includeTags?: string[];
@@ -32,7 +34,9 @@ export class AccessibilityHelper {
       builder.options({ rules: options.rules });
     }
 
-    return await builder.analyze();
+    const results = await builder.analyze();
+    await AccessibilityReport.attachScan(this.page, results);
+    return results;
   }
 
   /**
@@ -46,6 +50,7 @@ export class AccessibilityHelper {
 
   /**
    * Test keyboard navigation
+   * To complete a whole journey from the keyboard, see JourneyRunner.useKeyboardOnly
    */
   async testKeyboardNavigation(expectedFocusableElements: number) {
     const focusableElements: string[] = [];
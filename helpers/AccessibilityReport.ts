@@ -0,0 +1,276 @@
+import { Page, TestInfo } from '@playwright/test';
+import { AxeResults, NodeResult, Result } from 'axe-core';
+import { AccessibilityBaseline } from './AccessibilityBaseline';
+import { ScannedPageState } from './JourneyAccessibility';
+import { currentTestInfo } from './JourneyTrace';
+
+/**
+ * Accessibility Report
+ * Every axe scan a test runs is attached to it as an `a11y-scan`; the
+ * accessibility reporter (reporters/accessibility-reporter.ts) collects them
+ * into one HTML and JSON report for the run, grouped by rule, impact, page
+ * and component, with help links and the affected selectors
+ */
+
+export interface ScannedNode {
+  target: string;
+  html: string;
+  /** GOV.UK component the element belongs to, or "page" */
+  component: string;
+  failureSummary?: string;
+}
+
+export interface ScannedViolation {
+  id: string;
+  impact: string;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: ScannedNode[];
+}
+
+export interface AccessibilityScan {
+  url: string;
+  title: string;
+  /** Main heading - journey pages behind client-side routing share one URL */
+  heading: string;
+  /** Whether the page was showing errors */
+  state: ScannedPageState;
+  scannedAt: string;
+  violations: ScannedViolation[];
+  passes: number;
+  incomplete: number;
+}
+
+/**
+ * A scan, with the test that ran it
+ */
+export interface ReportedScan extends AccessibilityScan {
+  test: string;
+  file: string;
+}
+
+export interface ReportedNode extends ScannedNode {
+  /** Page key, as AccessibilityBaseline.pageKey */
+  page: string;
+  test: string;
+}
+
+export interface RuleReport {
+  id: string;
+  impact: string;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: ReportedNode[];
+}
+
+export interface AccessibilityRunReport {
+  generatedAt: string;
+  scans: number;
+  tests: number;
+  totals: {
+    rules: number;
+    nodes: number;
+    byImpact: Record<string, number>;
+  };
+  rules: RuleReport[];
+  /** Rule ids and affected element counts, per page */
+  byPage: Record<string, Record<string, number>>;
+  /** Rule ids and affected element counts, per component */
+  byComponent: Record<string, Record<string, number>>;
+}
+
+const IMPACT_ORDER = ['critical', 'serious', 'moderate', 'minor', 'unknown'];
+
+export class AccessibilityReport {
+
+  /** Attachment name for each scan in the Playwright report */
+  static readonly ATTACHMENT_NAME = 'a11y-scan';
+
+  /**
+   * Attach a scan's results to the running test, if there is one
+   */
+  static async attachScan(page: Page, results: AxeResults, testInfo: TestInfo | undefined = currentTestInfo()): Promise<void> {
+    if (!testInfo) {
+      return;
+    }
+
+    const scan: AccessibilityScan = {
+      url: page.url(),
+      title: await page.title().catch(() => ''),
+      heading: (await page.locator('h1').first().textContent({ timeout: 1000 }).catch(() => null))?.trim() || '',
+      state: await AccessibilityBaseline.pageState(page),
+      scannedAt: new Date().toISOString(),
+      violations: (results.violations || []).map((violation: Result) => ({
+        id: violation.id,
+        impact: violation.impact || 'unknown',
+        description: violation.description,
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        tags: violation.tags || [],
+        nodes: violation.nodes.map((node: NodeResult) => ({
+          target: [node.target].flat(2).map(String).join(' '),
+          html: node.html,
+          component: this.componentOf(node.html),
+          failureSummary: node.failureSummary
+        }))
+      })),
+      passes: results.passes?.length ?? 0,
+      incomplete: results.incomplete?.length ?? 0
+    };
+
+    await testInfo.attach(this.ATTACHMENT_NAME, {
+      body: JSON.stringify(scan),
+      contentType: 'application/json'
+    });
+  }
+
+  /**
+   * Work out the GOV.UK component an element belongs to from its markup
+   */
+  static componentOf(html: string): string {
+    const match = html.match(/class="[^"]*\bgovuk-([a-z]+(?:-[a-z]+)*)/);
+    return match ? match[1] : 'page';
+  }
+
+  /**
+   * Group the scans of a run by rule, page and component
+   * Pages are keyed by path and heading, as in the accessibility baseline.
+   */
+  static build(scans: ReportedScan[]): AccessibilityRunReport {
+    const rules = new Map<string, RuleReport>();
+    const byPage: AccessibilityRunReport['byPage'] = {};
+    const byComponent: AccessibilityRunReport['byComponent'] = {};
+
+    for (const scan of scans) {
+      const page = scan.url ? AccessibilityBaseline.pageKey(scan.url, scan.heading, scan.state) : 'unknown';
+
+      for (const violation of scan.violations) {
+        const rule = rules.get(violation.id) ?? {
+          id: violation.id,
+          impact: violation.impact,
+          description: violation.description,
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          tags: violation.tags,
+          nodes: []
+        };
+        rules.set(violation.id, rule);
+
+        for (const node of violation.nodes) {
+          // The same element on the same page counts once, however many tests scanned it
+          if (rule.nodes.some(existing => existing.page === page && existing.target === node.target)) {
+            continue;
+          }
+          rule.nodes.push({ ...node, page, test: scan.test });
+          increment(byPage, page, violation.id);
+          increment(byComponent, node.component, violation.id);
+        }
+      }
+    }
+
+    const sortedRules = [...rules.values()].sort((a, b) =>
+      impactRank(a.impact) - impactRank(b.impact) || b.nodes.length - a.nodes.length || a.id.localeCompare(b.id));
+
+    const byImpact: Record<string, number> = {};
+    for (const rule of sortedRules) {
+      byImpact[rule.impact] = (byImpact[rule.impact] ?? 0) + rule.nodes.length;
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      scans: scans.length,
+      tests: new Set(scans.map(scan => `${scan.file} ${scan.test}`)).size,
+      totals: {
+        rules: sortedRules.length,
+        nodes: sortedRules.reduce((total, rule) => total + rule.nodes.length, 0),
+        byImpact
+      },
+      rules: sortedRules,
+      byPage,
+      byComponent
+    };
+  }
+
+  /**
+   * Render a report as a standalone HTML page
+   */
+  static renderHtml(report: AccessibilityRunReport): string {
+    const summaryRows = (groups: Record<string, Record<string, number>>) => Object.entries(groups)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, counts]) => `<tr><td>${escape(name)}</td><td>${Object.entries(counts)
+        .map(([rule, count]) => `<a href="#rule-${escape(rule)}">${escape(rule)}</a> (${count})`).join(', ')}</td></tr>`)
+      .join('\n');
+
+    const ruleSections = report.rules.map(rule => `
+<section id="rule-${escape(rule.id)}">
+  <h3>${escape(rule.id)} <span class="impact impact-${escape(rule.impact)}">${escape(rule.impact)}</span></h3>
+  <p>${escape(rule.help)} - <a href="${escape(rule.helpUrl)}">how to fix</a></p>
+  <p class="tags">${rule.tags.map(escape).join(', ')}</p>
+  <table>
+    <thead><tr><th>Page</th><th>Component</th><th>Selector</th><th>Element</th><th>Test</th></tr></thead>
+    <tbody>
+${rule.nodes.map(node => `      <tr><td>${escape(node.page)}</td><td>${escape(node.component)}</td><td><code>${escape(node.target)}</code></td><td><code>${escape(node.html)}</code></td><td>${escape(node.test)}</td></tr>`).join('\n')}
+    </tbody>
+  </table>
+</section>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Accessibility report</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 2rem; color: #0b0c0c; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+  th, td { border-bottom: 1px solid #b1b4b6; padding: 0.4rem; text-align: left; vertical-align: top; }
+  code { font-size: 0.85rem; word-break: break-all; }
+  .impact { font-size: 0.8rem; padding: 0.1rem 0.4rem; color: #fff; background: #505a5f; }
+  .impact-critical { background: #942514; }
+  .impact-serious { background: #d4351c; }
+  .impact-moderate { background: #f47738; }
+  .tags { color: #505a5f; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>Accessibility report</h1>
+<p>${report.scans} scan(s) in ${report.tests} test(s), generated ${escape(report.generatedAt)}.</p>
+<p>${report.totals.rules} rule(s) failed on ${report.totals.nodes} element(s): ${IMPACT_ORDER
+      .filter(impact => report.totals.byImpact[impact])
+      .map(impact => `${report.totals.byImpact[impact]} ${impact}`).join(', ') || 'none'}.</p>
+<h2>By page</h2>
+<table><thead><tr><th>Page</th><th>Rules</th></tr></thead><tbody>
+${summaryRows(report.byPage)}
+</tbody></table>
+<h2>By component</h2>
+<table><thead><tr><th>Component</th><th>Rules</th></tr></thead><tbody>
+${summaryRows(report.byComponent)}
+</tbody></table>
+<h2>By rule</h2>
+${ruleSections || '<p>No violations.</p>'}
+</body>
+</html>
+`;
+  }
+}
+
+function impactRank(impact: string): number {
+  const rank = IMPACT_ORDER.indexOf(impact);
+  return rank === -1 ? IMPACT_ORDER.length : rank;
+}
+
+function increment(groups: Record<string, Record<string, number>>, group: string, rule: string): void {
+  groups[group] = groups[group] || {};
+  groups[group][rule] = (groups[group][rule] ?? 0) + 1;
+}
+
+function escape(text: string): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,5 +1,7 @@
 import { StepBlock } from './JourneyStepBlocks';
 import { PatternDetector } from './PatternDetector';
+import { SummaryDerivationOptions, SummaryRows } from './SummaryRows';
+import { FocusManagement } from './FocusManagement';
 
 /**
  * Adaptive Blocks
@@ -28,6 +30,42 @@ export class AdaptiveBlocks {
     };
   }
 
+  /**
+   * Verify summary data against the values the journey runner entered
+   * Derives the expected rows (see SummaryRows) and fails on missing or different rows;
+   * with `strict`, also on rows the test never entered. A question whose summary key is
+   * not its label or legend is matched by its answer, and logged, when it is the only row
+   * not shown and one row shows that answer - otherwise pass `keys` to match it by key.
+   */
+  static verifyEnteredAnswers(options: SummaryDerivationOptions & { strict?: boolean } = {}): StepBlock {
+    return async ({ page, journeyRunner }) => {
+      const expected = SummaryRows.derive(journeyRunner.getEnteredValues(), options);
+      const actual = await new PatternDetector(page).getSummaryData();
+      const diff = SummaryRows.diff(expected, actual);
+
+      if (SummaryRows.failed(diff, options)) {
+        throw new Error(`Check answers does not match the values entered:\n${SummaryRows.describe(diff)}`);
+      }
+      for (const { key, shownAs } of diff.matchedByValue) {
+        console.log(`Check answers: "${key}" was matched by its answer to row "${shownAs}" - pass keys to match it by key`);
+      }
+    };
+  }
+
+  /**
+   * Verify focus landed where GOV.UK expects after every continue, goBack and
+   * failed submission so far (see FocusManagement)
+   */
+  static verifyFocusManagement(): StepBlock {
+    return async ({ journeyRunner }) => {
+      const failed = journeyRunner.getFocusRecords().filter(record => !record.passed);
+      if (failed.length > 0) {
+        throw new Error(`Focus was not managed after ${failed.length} action(s):\n` +
+          failed.map(record => `  - ${FocusManagement.describe(record)}`).join('\n'));
+      }
+    };
+  }
+
   /**
    * Get summary data - returns data regardless of pattern
    */
@@ -143,6 +181,7 @@ export class AdaptiveBlocks {
 
   /**
    * Verify validation errors appear - adapts to summary or inline patterns
+   * For generated error cases on every page of a journey, see NegativePaths
    */
   static verifyValidationErrors(
     heading: string,
@@ -0,0 +1,341 @@
+/// <reference lib="dom" />
+import { Page } from '@playwright/test';
+import { JourneyRunner } from './JourneyRunner';
+import { FieldFiller } from './FieldFiller';
+import { FieldControl, FieldValue, parseDate } from './FieldControl';
+import { FieldValueGenerator } from './DataDrivenJourney';
+import { MONTHS } from './SummaryRows';
+
+/**
+ * Check Answers Verifier
+ * Round-trips every Change link on a check-answers page: the answer is shown
+ * pre-populated, is changed to a new value, and the journey comes straight
+ * back to check answers with the summary row updated
+ *
+ * A row's field is the one labelled like the row, or else the field on the
+ * page the Change link opens that holds the answer the row shows - so radio
+ * and date questions whose summary key is not their legend are found too.
+ *
+ * Example usage:
+ * ```typescript
+ * const results = await new CheckAnswersVerifier(page, journeyRunner).verifyAll({
+ *   'Manufacturer': 'Piper',
+ *   'Date of birth': { fields: { 'Date of birth': '02/03/1991' }, summary: '2 March 1991' }
+ * }, { leave: ['Applicant type'] });
+ * ```
+ */
+
+export interface AnswerChange {
+  /** Fields to change on the page the Change link opens, keyed by label */
+  fields: Record<string, FieldValue>;
+  /** Text the summary row should show afterwards - defaults to the new value */
+  summary?: string;
+}
+
+export interface SummaryRow {
+  key: string;
+  value: string;
+  hasChangeLink: boolean;
+}
+
+/**
+ * How to change a row: the given fields, or a new value generated for its field
+ */
+export type RowChange = AnswerChange | 'generate';
+
+export interface VerifyAllOptions {
+  /** Rows, by key, to round-trip without changing - e.g. a question that branches the journey */
+  leave?: string[];
+}
+
+export interface RoundTripResult {
+  key: string;
+  page: string;
+  from: string;
+  to: string;
+  changed: boolean;
+}
+
+export class CheckAnswersVerifier {
+  private filler: FieldFiller;
+
+  constructor(
+    private page: Page,
+    private journeyRunner: JourneyRunner
+  ) {
+    this.filler = new FieldFiller(page);
+  }
+
+  /**
+   * Read every summary row, in order
+   */
+  async readRows(): Promise<SummaryRow[]> {
+    const rows = await this.page.locator('.govuk-summary-list__row').all();
+    const summary: SummaryRow[] = [];
+
+    for (const row of rows) {
+      summary.push({
+        key: (await row.locator('.govuk-summary-list__key').textContent())?.trim() || '',
+        value: (await row.locator('.govuk-summary-list__value').textContent())?.trim() || '',
+        hasChangeLink: await row.locator('.govuk-summary-list__actions a').count() > 0
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Follow every Change link on the page
+   *
+   * Rows with a change are modified as given; a plain value is a new value for
+   * the field labelled like the row. Every other row is changed to a generated
+   * value, unless it is in `leave`, when it is checked and left as it is.
+   */
+  async verifyAll(
+    changes: Record<string, AnswerChange | FieldValue> = {},
+    options: VerifyAllOptions = {}
+  ): Promise<RoundTripResult[]> {
+    const rows = await this.readRows();
+    const results: RoundTripResult[] = [];
+
+    const unknown = [...Object.keys(changes), ...options.leave || []]
+      .filter(key => !rows.some(row => row.key === key && row.hasChangeLink));
+    if (unknown.length > 0) {
+      throw new Error(
+        `No Change link for: ${unknown.join(', ')}. Rows with Change links: ${rows.filter(r => r.hasChangeLink).map(r => r.key).join(', ')}`
+      );
+    }
+
+    for (const [index, row] of rows.entries()) {
+      if (!row.hasChangeLink) {
+        continue;
+      }
+      const change = options.leave?.includes(row.key)
+        ? undefined
+        : CheckAnswersVerifier.toChange(row.key, changes[row.key]) ?? 'generate';
+      results.push(await this.verifyRow(index, change));
+    }
+
+    return results;
+  }
+
+  /**
+   * Round-trip the Change link of one summary row, by position
+   * Without a change, the row is checked and left as it is. Changed answers
+   * are recorded against the question's own step (see JourneyRunner.followChangeLink).
+   */
+  async verifyRow(index: number, change?: RowChange): Promise<RoundTripResult> {
+    const checkAnswersHeading = (await this.page.locator('h1').first().textContent())?.trim() || '';
+    const row = (await this.readRows())[index];
+
+    await this.journeyRunner.followChangeLink(
+      this.page.locator('.govuk-summary-list__row').nth(index).locator('.govuk-summary-list__actions a').first(),
+      `Change link for "${row.key}"`
+    );
+    const changePage = (await this.page.locator('h1').first().textContent())?.trim() || '';
+
+    const labels = change && change !== 'generate' ? Object.keys(change.fields) : [await this.questionFor(row, changePage)];
+    for (const label of labels) {
+      const current = await this.filler.read(label).catch(error => {
+        throw new Error(
+          `Change link for "${row.key}" opened "${changePage}" with no field labelled "${label}" - pass the fields to change: ${error.message}`
+        );
+      });
+      if (!CheckAnswersVerifier.summaryShows(row.value, current)) {
+        throw new Error(
+          `Change link for "${row.key}" opened "${changePage}" with "${label}" set to ${JSON.stringify(current)}, ` +
+          `not the answer shown on check answers ("${row.value}")`
+        );
+      }
+    }
+
+    const applied = change === 'generate' ? await this.generateChange(labels[0]) : change;
+    if (applied) {
+      await this.journeyRunner.fillStep(applied.fields);
+    }
+    await this.journeyRunner.continue();
+
+    const returnedTo = (await this.page.locator('h1').first().textContent())?.trim() || '';
+    if (returnedTo !== checkAnswersHeading) {
+      throw new Error(
+        `Changing "${row.key}" went on to "${returnedTo}" instead of returning to "${checkAnswersHeading}"` +
+        (change === 'generate' ? ` - if this question branches the journey, leave it or give the change` : '')
+      );
+    }
+
+    const updated = (await this.readRows())[index];
+    if (!updated || updated.key !== row.key) {
+      throw new Error(`Row "${row.key}" moved or disappeared after changing it`);
+    }
+
+    if (applied) {
+      const expected = applied.summary ?? Object.values(applied.fields)[0];
+      if (!CheckAnswersVerifier.summaryShows(updated.value, expected)) {
+        throw new Error(`Row "${row.key}" shows "${updated.value}" after changing it, expected ${JSON.stringify(expected)}`);
+      }
+    } else if (updated.value !== row.value) {
+      throw new Error(`Row "${row.key}" changed from "${row.value}" to "${updated.value}" without being edited`);
+    }
+
+    return { key: row.key, page: changePage, from: row.value, to: updated.value, changed: !!applied };
+  }
+
+  /**
+   * Find the field a summary row answers on the page its Change link opened:
+   * the one labelled like the row, or else the one holding the answer the row shows
+   */
+  private async questionFor(row: SummaryRow, changePage: string): Promise<string> {
+    const questions = await this.page.locator('main').first().evaluate(listQuestions).catch(() => [] as string[]);
+    if (questions.includes(row.key)) {
+      return row.key;
+    }
+
+    for (const question of questions) {
+      const current = await this.filler.read(question).catch(() => undefined);
+      if (current !== undefined && !CheckAnswersVerifier.isEmpty(current) && CheckAnswersVerifier.summaryShows(row.value, current)) {
+        return question;
+      }
+    }
+
+    throw new Error(
+      `Change link for "${row.key}" opened "${changePage}", but no field there holds "${row.value}". ` +
+      `Fields: ${questions.join(', ') || 'none'} - pass the fields to change`
+    );
+  }
+
+  /**
+   * A new value for a field, different from the one it holds
+   */
+  private async generateChange(label: string): Promise<AnswerChange> {
+    const control = await this.filler.resolve(label);
+    const current = await this.filler.read(label);
+    const value = await this.newValueFor(control, label, current);
+
+    // Checking a checkbox keeps the others checked, so the row shows them all
+    const summary = control.kind === 'checkboxes' ? [...current as string[], ...value as string[]].join('\n') : undefined;
+    return summary === undefined ? { fields: { [label]: value } } : { fields: { [label]: value }, summary };
+  }
+
+  private async newValueFor(control: FieldControl, label: string, current: FieldValue): Promise<FieldValue> {
+    switch (control.kind) {
+      case 'radios':
+      case 'checkboxes': {
+        const role = control.kind === 'radios' ? 'radio' : 'checkbox';
+        const options = await control.locator.getByRole(role).evaluateAll(inputs =>
+          inputs.map(input => (input as HTMLInputElement).labels?.[0]?.textContent?.trim() || ''));
+        const chosen = Array.isArray(current) ? current : [current];
+        const other = options.find(option => option !== '' && !chosen.includes(option));
+        if (!other) {
+          throw new Error(`"${label}" has no other option to change to`);
+        }
+        return control.kind === 'radios' ? other : [other];
+      }
+
+      case 'select': {
+        const options = await control.locator.locator('option').allTextContents();
+        const other = options.map(option => option.trim()).find(option => option !== '' && option !== current);
+        if (!other) {
+          throw new Error(`"${label}" has no other option to change to`);
+        }
+        return other;
+      }
+
+      case 'date': {
+        // A different day, month and year, so a summary showing any part of the old date fails
+        const date = parseDate(label, current);
+        return {
+          day: String(Number(date.day) % 28 + 1),
+          month: String(Number(date.month) % 12 + 1),
+          year: String(Number(date.year) - 1)
+        };
+      }
+
+      default:
+        for (let attempt = 0; attempt < 5; attempt++) {
+          const value = new FieldValueGenerator().valueFor({ type: 'text', name: label.toLowerCase(), label });
+          if (value !== current) {
+            return value;
+          }
+        }
+        throw new Error(`Could not generate a new value for "${label}" - pass the change`);
+    }
+  }
+
+  private static toChange(key: string, change: AnswerChange | FieldValue | undefined): AnswerChange | undefined {
+    if (change === undefined) {
+      return undefined;
+    }
+    if (typeof change === 'object' && 'fields' in change) {
+      return change as AnswerChange;
+    }
+    return { fields: { [key]: change as FieldValue } };
+  }
+
+  /**
+   * Check a summary value shows a field value
+   * Dates must match in full - day, month and year - however the summary formats them
+   */
+  private static summaryShows(summary: string, value: FieldValue): boolean {
+    if (Array.isArray(value)) {
+      return value.every(item => summary.includes(item));
+    }
+    if (typeof value === 'object') {
+      const shown = CheckAnswersVerifier.parseSummaryDate(summary);
+      return shown !== undefined && (['day', 'month', 'year'] as const).every(part => shown[part] === Number(value[part]));
+    }
+    return value.trim() === '' ? summary.trim() === '' : summary.includes(value.trim());
+  }
+
+  /**
+   * Read a date from a summary value, e.g. "2 March 1991", "2 Mar 1991" or "02/03/1991"
+   */
+  static parseSummaryDate(summary: string): { day: number; month: number; year: number } | undefined {
+    const numeric = summary.match(/\b(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{4})\b/);
+    if (numeric) {
+      return { day: Number(numeric[1]), month: Number(numeric[2]), year: Number(numeric[3]) };
+    }
+
+    const named = summary.match(/\b(\d{1,2}) ([A-Za-z]+) (\d{4})\b/);
+    const month = named ? MONTHS.findIndex(name => name.toLowerCase().startsWith(named[2].toLowerCase().slice(0, 3))) : -1;
+    if (named && month !== -1) {
+      return { day: Number(named[1]), month: month + 1, year: Number(named[3]) };
+    }
+
+    return undefined;
+  }
+
+  private static isEmpty(value: FieldValue): boolean {
+    if (Array.isArray(value)) {
+      return value.length === 0;
+    }
+    return typeof value === 'object' ? !value.day && !value.month && !value.year : value.trim() === '';
+  }
+}
+
+/**
+ * Runs in the page - the question each form control answers: the legend of a
+ * radio, checkbox or date group, or the label of any other control
+ */
+function listQuestions(root: Element): string[] {
+  const questions: string[] = [];
+
+  for (const fieldset of Array.from(root.querySelectorAll('fieldset'))) {
+    const legend = fieldset.querySelector('legend')?.textContent?.trim();
+    if (legend && fieldset.querySelector('input[type="radio"], input[type="checkbox"], .govuk-date-input')) {
+      questions.push(legend);
+    }
+  }
+
+  for (const control of Array.from(root.querySelectorAll('input, select, textarea'))) {
+    const type = control.getAttribute('type') || 'text';
+    if (['hidden', 'submit', 'button', 'radio', 'checkbox'].includes(type) || control.closest('.govuk-date-input')) {
+      continue;
+    }
+    const label = (control as HTMLInputElement).labels?.[0]?.textContent?.trim();
+    if (label) {
+      questions.push(label);
+    }
+  }
+
+  return questions;
+}
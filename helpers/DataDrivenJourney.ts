@@ -0,0 +1,203 @@
+import { StepBlock, namedStep } from './JourneyStepBlocks';
+import { TestDataFactory } from './TestDataFactory';
+import { JourneyGraph, JourneyRoute } from './JourneyGraph';
+import {
+  JourneyDefinition,
+  JourneyFieldDefinition,
+  JourneyStepDefinition,
+  journeysFileSchema,
+  parseWithSchema
+} from '../tests/shared/validation/schemas';
+import journeysData from '../test-data/journeys.json';
+
+/**
+ * Values to use instead of generated data, keyed by step name then field name
+ */
+export type JourneyDataOverrides = Record<string, Record<string, string | string[]>>;
+
+/**
+ * Data-Driven Journey
+ * Builds journey step blocks from the definitions in test-data/journeys.json
+ *
+ * Example usage:
+ * ```typescript
+ * const definition = DataDrivenJourney.load('register-a-plane');
+ *
+ * await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *   .addSteps(DataDrivenJourney.buildSteps(definition))
+ *   .execute();
+ * ```
+ */
+export class DataDrivenJourney {
+
+  /**
+   * Get every journey definition, validated against the journey schema
+   */
+  static loadAll(): JourneyDefinition[] {
+    return parseWithSchema(journeysFileSchema, journeysData, 'test-data/journeys.json').journeys;
+  }
+
+  /**
+   * Get a journey definition by id
+   */
+  static load(journeyId: string): JourneyDefinition {
+    const definitions = this.loadAll();
+    const definition = definitions.find(journey => journey.id === journeyId);
+
+    if (!definition) {
+      throw new Error(
+        `Journey "${journeyId}" not found in test-data/journeys.json. Available: ${definitions.map(j => j.id).join(', ')}`
+      );
+    }
+
+    return definition;
+  }
+
+  /**
+   * Build the step blocks for a whole journey: start, every question step,
+   * check answers and confirmation
+   *
+   * Follows the route picked by any radios overrides, or the first option of each radios field.
+   */
+  static buildSteps(definition: JourneyDefinition, overrides: JourneyDataOverrides = {}): StepBlock[] {
+    const routes = JourneyGraph.fromDefinition(definition).enumerateRoutes();
+    const route = routes.find(candidate => candidate.transitions.every(transition => {
+      const override = transition.choice && overrides[transition.from]?.[transition.choice.field];
+      return override === undefined || override === transition.choice?.option;
+    }));
+
+    if (!route) {
+      throw new Error(`No route through "${definition.id}" matches the radios overrides given`);
+    }
+
+    return this.buildRouteSteps(definition, route, overrides);
+  }
+
+  /**
+   * Build the step blocks for one route through a journey
+   */
+  static buildRouteSteps(
+    definition: JourneyDefinition,
+    route: JourneyRoute,
+    overrides: JourneyDataOverrides = {}
+  ): StepBlock[] {
+    const generator = new FieldValueGenerator();
+    const blocks: StepBlock[] = [
+      namedStep(`start ${definition.id}`, async ({ journeyRunner }) => {
+        await journeyRunner.startJourney(definition.path);
+      })
+    ];
+
+    for (const pageName of route.pages) {
+      const step = definition.steps.find(candidate => candidate.name === pageName);
+      if (!step) {
+        throw new Error(`Route "${route.id}" visits "${pageName}", which is not a step of "${definition.id}"`);
+      }
+
+      const choice = route.transitions.find(transition => transition.from === pageName)?.choice;
+      const stepOverrides = {
+        ...overrides[step.name],
+        ...(choice ? { [choice.field]: choice.option } : {})
+      };
+
+      blocks.push(this.buildStep(step, generator, stepOverrides));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Build the step block for a single journey step
+   */
+  static buildStep(
+    step: JourneyStepDefinition,
+    generator: FieldValueGenerator = new FieldValueGenerator(),
+    overrides: Record<string, string | string[]> = {}
+  ): StepBlock {
+    return namedStep(step.name, async ({ journeyRunner, componentHelper }) => {
+      await journeyRunner.verifyHeading(step.heading);
+
+      if (step.name === 'check-answers') {
+        await journeyRunner.submit();
+        return;
+      }
+
+      if (step.name === 'confirmation') {
+        await componentHelper.verifyPanelTitle(step.heading);
+        return;
+      }
+
+      const entered: Record<string, string | string[]> = {};
+
+      for (const field of step.fields || []) {
+        const value = overrides[field.name] ?? generator.valueFor(field);
+        entered[field.name] = value;
+
+        if (field.type === 'radios') {
+          await journeyRunner.selectRadio(value as string);
+        } else if (field.type === 'checkboxes') {
+          for (const option of Array.isArray(value) ? value : [value]) {
+            await journeyRunner.checkCheckbox(option);
+          }
+        } else {
+          await journeyRunner.fillStep({ [field.label || field.name]: value as string });
+        }
+      }
+
+      await journeyRunner.continue();
+      journeyRunner.storeData(step.name, entered);
+    });
+  }
+}
+
+/**
+ * Field Value Generator
+ * Picks TestDataFactory data for a field from its type and name, keeping
+ * related values (name and email, aircraft details) consistent within a journey
+ */
+export class FieldValueGenerator {
+  private contact = TestDataFactory.generateContactDetails();
+  private address = TestDataFactory.generateAddress();
+  private aircraft = TestDataFactory.generateAircraftData();
+  private company = TestDataFactory.generateCompanyDetails();
+
+  /**
+   * Generate a value for a field
+   */
+  valueFor(field: JourneyFieldDefinition): string | string[] {
+    if (field.type === 'radios') {
+      return this.firstOption(field);
+    }
+
+    if (field.type === 'checkboxes') {
+      return [this.firstOption(field)];
+    }
+
+    if (field.type === 'date') {
+      return '01/01/1990';
+    }
+
+    const key = `${field.name} ${field.label || ''}`.toLowerCase();
+
+    if (field.type === 'email' || key.includes('email')) return this.contact.email;
+    if (field.type === 'tel' || key.includes('phone')) return this.contact.phone;
+    if (key.includes('company')) return this.company.name;
+    if (key.includes('registration-number')) return this.company.registrationNumber;
+    if (key.includes('manufacturer')) return this.aircraft.manufacturer;
+    if (key.includes('model')) return this.aircraft.model;
+    if (key.includes('serial')) return this.aircraft.serialNumber;
+    if (key.includes('postcode')) return this.address.postcode;
+    if (key.includes('address') || key.includes('line-1')) return this.address.line1;
+    if (key.includes('town') || key.includes('city')) return this.address.city;
+    if (key.includes('name')) return this.contact.fullName;
+
+    return 'Test value';
+  }
+
+  private firstOption(field: JourneyFieldDefinition): string {
+    if (!field.options || field.options.length === 0) {
+      throw new Error(`Field "${field.name}" is ${field.type} but has no options to choose from`);
+    }
+    return field.options[0];
+  }
+}
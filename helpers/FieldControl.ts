@@ -0,0 +1,49 @@
+import { Locator } from '@playwright/test';
+
+/**
+ * Field Control
+ * The shapes of values and controls shared by FieldFiller and KeyboardDriver,
+ * and the date parsing both fill date inputs with
+ */
+
+export type FieldValue = string | string[] | { day: string; month: string; year: string };
+
+export type FieldKind =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'autocomplete'
+  | 'file'
+  | 'radio'
+  | 'checkbox'
+  | 'radios'
+  | 'checkboxes'
+  | 'date'
+  | 'unknown';
+
+export interface FieldControl {
+  kind: FieldKind;
+  locator: Locator;
+  description: string;
+  visible: boolean;
+  /** Legend of the fieldset around a single radio or checkbox */
+  group?: string;
+}
+
+/**
+ * Parse a date value - either { day, month, year } or 'DD/MM/YYYY' / 'DD MM YYYY'
+ */
+export function parseDate(label: string, value: FieldValue): { day: string; month: string; year: string } {
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const parts = value.split(/[\/ ]/).filter(part => part.length > 0);
+    if (parts.length === 3) {
+      return { day: parts[0], month: parts[1], year: parts[2] };
+    }
+  }
+
+  throw new Error(`Invalid date for "${label}": ${JSON.stringify(value)}. Expected DD/MM/YYYY or DD MM YYYY`);
+}
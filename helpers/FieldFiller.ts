@@ -0,0 +1,311 @@
+/// <reference lib="dom" />
+import { Locator, Page } from '@playwright/test';
+import { KeyboardDriver } from './KeyboardDriver';
+import { FieldControl, FieldKind, FieldValue, parseDate } from './FieldControl';
+
+/**
+ * Field Filler
+ * Resolves a label to the control it names in the accessibility tree and fills it
+ * according to what that control actually is
+ *
+ * A label can name a single control (text input, textarea, select, file input,
+ * autocomplete, or one radio/checkbox option) or a group - the fieldset around a
+ * radio group, checkbox group or GOV.UK date input, named by its legend.
+ *
+ * Example usage:
+ * ```typescript
+ * const filler = new FieldFiller(page);
+ * await filler.fill('Full name', 'Jane Smith');
+ * await filler.fill('Date of birth', '01/02/1990');
+ * await filler.fill('How would you like to be contacted?', ['Email', 'Phone']);
+ * ```
+ */
+
+interface ControlInfo {
+  kind: FieldKind;
+  description: string;
+  group?: string;
+}
+
+/**
+ * Runs in the page - works out what kind of control an element is
+ */
+function inspectControl(element: Element): ControlInfo {
+  const tag = element.tagName.toLowerCase();
+  const id = element.id ? ` #${element.id}` : '';
+  const name = element.getAttribute('name') ? ` name="${element.getAttribute('name')}"` : '';
+  const describe = (kind: string) => `${kind} <${tag}${id}${name}>`;
+
+  if (tag === 'fieldset' || element.getAttribute('role') === 'group' || element.getAttribute('role') === 'radiogroup') {
+    if (element.querySelector('.govuk-date-input, input[id$="-day"], input[name$="-day"], input[name$="[day]"]')) {
+      return { kind: 'date', description: describe('date input') };
+    }
+    if (element.querySelector('input[type="radio"]')) {
+      return { kind: 'radios', description: describe('radio group') };
+    }
+    if (element.querySelector('input[type="checkbox"]')) {
+      return { kind: 'checkboxes', description: describe('checkbox group') };
+    }
+    return { kind: 'unknown', description: describe('group') };
+  }
+
+  if (tag === 'textarea') return { kind: 'textarea', description: describe('textarea') };
+  if (tag === 'select') return { kind: 'select', description: describe('select') };
+
+  if (tag === 'input') {
+    const type = (element.getAttribute('type') || 'text').toLowerCase();
+    const group = element.closest('fieldset')?.querySelector('legend')?.textContent?.trim() || undefined;
+    if (type === 'radio') return { kind: 'radio', description: describe('radio'), group };
+    if (type === 'checkbox') return { kind: 'checkbox', description: describe('checkbox'), group };
+    if (type === 'file') return { kind: 'file', description: describe('file input') };
+    if (element.getAttribute('role') === 'combobox' || element.hasAttribute('aria-autocomplete')) {
+      return { kind: 'autocomplete', description: describe('autocomplete') };
+    }
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type)) {
+      return { kind: 'unknown', description: describe(`${type} input`) };
+    }
+    return { kind: 'text', description: describe(`${type} input`) };
+  }
+
+  return { kind: 'unknown', description: describe('element') };
+}
+
+export class FieldFiller {
+  private keyboard?: KeyboardDriver;
+
+  constructor(
+    private page: Page,
+    private scope: Page | Locator = page
+  ) {}
+
+  /**
+   * Fill controls from the keyboard only (see KeyboardDriver), or pass nothing to fill them directly again
+   */
+  useKeyboard(keyboard?: KeyboardDriver): void {
+    this.keyboard = keyboard;
+  }
+
+  /**
+   * Fill the control a label names, returning the control that was filled
+   */
+  async fill(label: string, value: FieldValue): Promise<FieldControl> {
+    const control = await this.resolve(label);
+    if (this.keyboard) {
+      await this.keyboard.fillControl(control, label, value);
+    } else {
+      await this.fillControl(control, label, value);
+    }
+    return control;
+  }
+
+  /**
+   * Read the current value of the control a label names, in the shape `fill` takes
+   * A single radio or checkbox reads as its label when checked, otherwise ''
+   */
+  async read(label: string): Promise<FieldValue> {
+    const control = await this.resolve(label);
+    const { locator } = control;
+
+    switch (control.kind) {
+      case 'text':
+      case 'textarea':
+      case 'autocomplete':
+        return await locator.inputValue();
+
+      case 'select':
+        return await locator.evaluate(select => (select as HTMLSelectElement).selectedOptions[0]?.textContent?.trim() || '');
+
+      case 'file':
+        return await locator.evaluate(input => Array.from((input as HTMLInputElement).files || []).map(file => file.name));
+
+      case 'radio':
+      case 'checkbox':
+        return await locator.isChecked() ? label : '';
+
+      case 'radios':
+      case 'checkboxes': {
+        const checked = await locator.locator('input:checked').evaluateAll(inputs =>
+          inputs.map(input => (input as HTMLInputElement).labels?.[0]?.textContent?.trim() || '')
+        );
+        return control.kind === 'radios' ? checked[0] || '' : checked;
+      }
+
+      case 'date':
+        return {
+          day: await locator.getByLabel('Day', { exact: true }).inputValue(),
+          month: await locator.getByLabel('Month', { exact: true }).inputValue(),
+          year: await locator.getByLabel('Year', { exact: true }).inputValue()
+        };
+
+      default:
+        throw new Error(`Don't know how to read ${control.description} labelled "${label}"`);
+    }
+  }
+
+  /**
+   * Verify the control a label names holds a value
+   * Dates compare by number, so '01' matches '1'; checkbox groups compare as sets
+   */
+  async verify(label: string, expected: FieldValue): Promise<void> {
+    const actual = await this.read(label);
+
+    if (!FieldFiller.valuesMatch(label, expected, actual)) {
+      throw new Error(`Field "${label}" should be ${JSON.stringify(expected)} but is ${JSON.stringify(actual)}`);
+    }
+  }
+
+  /**
+   * Resolve a label to exactly one control
+   *
+   * Matches the whole label first and falls back to a partial match. Prefers
+   * visible controls, so hidden inputs behind enhanced widgets are skipped.
+   */
+  async resolve(label: string): Promise<FieldControl> {
+    let candidates = await this.findCandidates(label, true);
+    if (candidates.length === 0) {
+      candidates = await this.findCandidates(label, false);
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`No form control is labelled "${label}"`);
+    }
+
+    const visible = candidates.filter(candidate => candidate.visible);
+    const preferred = visible.length > 0 ? visible : candidates;
+
+    if (preferred.length > 1) {
+      throw new Error(
+        `Label "${label}" is ambiguous - it matches ${preferred.length} controls:\n` +
+        preferred.map(candidate => `  - ${candidate.description}`).join('\n')
+      );
+    }
+
+    return preferred[0];
+  }
+
+  /**
+   * Find every group and control named by a label
+   */
+  async findCandidates(label: string, exact: boolean): Promise<FieldControl[]> {
+    const locators = [
+      ...await this.scope.getByRole('group', { name: label, exact }).all(),
+      ...await this.scope.getByRole('radiogroup', { name: label, exact }).all(),
+      ...await this.scope.getByLabel(label, { exact }).all()
+    ];
+
+    const candidates: FieldControl[] = [];
+    for (const locator of locators) {
+      const info = await locator.evaluate(inspectControl);
+      if (info.kind === 'unknown') {
+        continue;
+      }
+      candidates.push({ ...info, locator, visible: await locator.isVisible() });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Fill a resolved control with a value of the shape it expects
+   */
+  private async fillControl(control: FieldControl, label: string, value: FieldValue): Promise<void> {
+    switch (control.kind) {
+      case 'text':
+      case 'textarea':
+        // A date given for a single text input is typed as DD/MM/YYYY
+        await control.locator.fill(typeof value === 'object' && !Array.isArray(value)
+          ? `${value.day}/${value.month}/${value.year}`
+          : this.asText(label, value));
+        return;
+
+      case 'select':
+        await this.selectOption(control.locator, this.asText(label, value));
+        return;
+
+      case 'autocomplete':
+        await this.fillAutocomplete(control.locator, this.asText(label, value));
+        return;
+
+      case 'file':
+        await control.locator.setInputFiles(Array.isArray(value) ? value : this.asText(label, value));
+        return;
+
+      case 'radio':
+      case 'checkbox':
+        // The label names the option itself, so the value only confirms the choice
+        await control.locator.check();
+        return;
+
+      case 'radios':
+        await control.locator.getByRole('radio', { name: this.asText(label, value), exact: true }).check();
+        return;
+
+      case 'checkboxes':
+        for (const option of Array.isArray(value) ? value : [this.asText(label, value)]) {
+          await control.locator.getByRole('checkbox', { name: option, exact: true }).check();
+        }
+        return;
+
+      case 'date':
+        await this.fillDate(control.locator, label, value);
+        return;
+
+      default:
+        throw new Error(`Don't know how to fill ${control.description} labelled "${label}"`);
+    }
+  }
+
+  /**
+   * Fill the day, month and year inputs inside one GOV.UK date input fieldset
+   */
+  private async fillDate(fieldset: Locator, label: string, value: FieldValue): Promise<void> {
+    const date = parseDate(label, value);
+
+    await fieldset.getByLabel('Day', { exact: true }).fill(date.day);
+    await fieldset.getByLabel('Month', { exact: true }).fill(date.month);
+    await fieldset.getByLabel('Year', { exact: true }).fill(date.year);
+  }
+
+  /**
+   * Choose a select option by its text, falling back to its value
+   */
+  private async selectOption(select: Locator, value: string): Promise<void> {
+    const byLabel = await select.locator('option', { hasText: value }).count();
+    await select.selectOption(byLabel > 0 ? { label: value } : { value });
+  }
+
+  /**
+   * Type into an autocomplete and pick the matching suggestion when one is offered
+   */
+  private async fillAutocomplete(input: Locator, value: string): Promise<void> {
+    await input.fill(value);
+
+    const option = this.page.getByRole('option', { name: value, exact: true }).first();
+    if (await option.waitFor({ state: 'visible', timeout: 2000 }).then(() => true, () => false)) {
+      await option.click();
+    }
+  }
+
+  private asText(label: string, value: FieldValue): string {
+    if (typeof value !== 'string') {
+      throw new Error(`Field "${label}" takes a single text value, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  private static valuesMatch(label: string, expected: FieldValue, actual: FieldValue): boolean {
+    if (Array.isArray(expected) || Array.isArray(actual)) {
+      const expectedItems = Array.isArray(expected) ? expected : [expected];
+      const actualItems = Array.isArray(actual) ? actual : [actual];
+      return expectedItems.length === actualItems.length && expectedItems.every(item => actualItems.includes(item));
+    }
+
+    if (typeof actual === 'object') {
+      const expectedDate = parseDate(label, expected);
+      return (['day', 'month', 'year'] as const).every(part => Number(expectedDate[part]) === Number(actual[part]));
+    }
+
+    // A single radio or checkbox reads as its label, whatever value it was filled with
+    return typeof expected === 'string' && (actual.trim() === expected.trim() || (actual === label && expected !== ''));
+  }
+}
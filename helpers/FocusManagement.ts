@@ -0,0 +1,121 @@
+/// <reference lib="dom" />
+import { Page } from '@playwright/test';
+
+/**
+ * Focus Management
+ * Where focus lands after a journey moves between pages or rejects a submission
+ *
+ * GOV.UK patterns expect:
+ * - after a failed submit, focus on the error summary
+ * - after client-side navigation, focus moved to the new page's h1 or main
+ *   content (or the skip link), not left on the body where the old page's
+ *   button was removed
+ * - after a full page load, focus at the top of the new document
+ */
+
+export type FocusAction = 'continue' | 'goBack' | 'failed-submit';
+
+export type FocusCheckMode = 'off' | 'record' | 'enforce';
+
+export interface FocusedElement {
+  /** e.g. `<div #error-summary .govuk-error-summary>` */
+  description: string;
+  inErrorSummary: boolean;
+  inHeading: boolean;
+  inMain: boolean;
+  isSkipLink: boolean;
+  /** Nothing in particular has focus */
+  isBody: boolean;
+}
+
+export interface FocusRecord {
+  action: FocusAction;
+  heading: string;
+  url: string;
+  fullPageLoad: boolean;
+  focused: FocusedElement;
+  expected: string;
+  passed: boolean;
+}
+
+export class FocusManagementError extends Error {
+  constructor(record: FocusRecord) {
+    super(FocusManagement.describe(record));
+    this.name = 'FocusManagementError';
+  }
+}
+
+/**
+ * Runs in the page - describes document.activeElement
+ */
+function describeFocus(): FocusedElement {
+  const active = document.activeElement;
+  const isBody = !active || active === document.body || active === document.documentElement;
+  const element = active || document.body;
+  const id = element.id ? ` #${element.id}` : '';
+  const classes = Array.from(element.classList).map(name => ` .${name}`).join('');
+
+  return {
+    description: `<${element.tagName.toLowerCase()}${id}${classes}>`,
+    inErrorSummary: element.closest('.govuk-error-summary') !== null,
+    inHeading: element.closest('h1') !== null,
+    inMain: !isBody && element.matches('main, [role="main"], #main-content'),
+    isSkipLink: element.matches('.govuk-skip-link'),
+    isBody
+  };
+}
+
+export class FocusManagement {
+
+  /**
+   * Identify the current document, to tell a full page load from client-side navigation
+   */
+  static async documentId(page: Page): Promise<number> {
+    return page.evaluate(() => performance.timeOrigin).catch(() => 0);
+  }
+
+  /**
+   * Describe the element that has focus
+   */
+  static async focusedElement(page: Page): Promise<FocusedElement> {
+    return page.evaluate(describeFocus);
+  }
+
+  /**
+   * Check where focus landed after an action
+   */
+  static async check(page: Page, action: FocusAction, options: { fullPageLoad: boolean }): Promise<FocusRecord> {
+    const focused = await this.focusedElement(page);
+    const heading = (await page.locator('h1').first().textContent().catch(() => null))?.trim() || '';
+    const { expected, passed } = this.expectation(action, focused, options.fullPageLoad);
+
+    return { action, heading, url: page.url(), fullPageLoad: options.fullPageLoad, focused, expected, passed };
+  }
+
+  /**
+   * Describe a focus check for failure messages and logs
+   */
+  static describe(record: FocusRecord): string {
+    const outcome = record.passed ? 'moved focus to' : 'left focus on';
+    return `${record.action} on "${record.heading}" ${outcome} ${record.focused.description}` +
+      (record.passed ? '' : ` - expected ${record.expected}`);
+  }
+
+  private static expectation(action: FocusAction, focused: FocusedElement, fullPageLoad: boolean): { expected: string; passed: boolean } {
+    if (action === 'failed-submit') {
+      return { expected: 'the error summary', passed: focused.inErrorSummary };
+    }
+
+    if (fullPageLoad) {
+      return {
+        expected: 'the top of the new page (document, skip link, h1 or main content)',
+        passed: focused.isBody || focused.isSkipLink || focused.inHeading || focused.inMain
+      };
+    }
+
+    return {
+      expected: "the new page's h1, main content or skip link",
+      passed: focused.isSkipLink || focused.inHeading || focused.inMain
+    };
+  }
+}
@@ -1,4 +1,10 @@
-import { StepBlock } from './JourneyStepBlocks';
+import { StepBlock, StepBlockContext } from './JourneyStepBlocks';
+import { PatternDetector } from './PatternDetector';
+import { FieldValue } from './FieldControl';
+import { JourneyBuilder } from './JourneyBuilder';
+import { TaskListDriver, TaskStatus } from './TaskListDriver';
+import { AnswerChange, CheckAnswersVerifier, VerifyAllOptions } from './CheckAnswersVerifier';
+import { JourneyDataStore } from './JourneyDataStore';
 
 /**
  * GOV.UK Pattern Blocks
@@ -10,6 +16,7 @@ import { StepBlock } from './JourneyStepBlocks';
  * - Check your answers
  * - Confirmation pages
  * - Task lists
+ * - Add another (repeating items)
  */
 export class GovUKPatternBlocks {
   
@@ -25,7 +32,7 @@ export class GovUKPatternBlocks {
       
       // Start pages typically have a "Start now" button
       const startButton = page.getByRole('button', { name: /Start now|Continue/i });
-      await startButton.click();
+      await journeyRunner.activate(startButton, 'Start button');
     };
   }
 
@@ -126,21 +133,34 @@ export class GovUKPatternBlocks {
     };
   }
 
+  /**
+   * Follow every Change link from Check Your Answers and come back
+   * Verifies each answer is pre-populated, changes it - as given for its row, or
+   * to a generated value unless the row is in `leave` - and checks the journey
+   * returns to Check Your Answers with the row updated
+   */
+  static verifyChangeLinks(changes: Record<string, AnswerChange | FieldValue> = {}, options: VerifyAllOptions = {}): StepBlock {
+    return async ({ page, journeyRunner }) => {
+      const results = await new CheckAnswersVerifier(page, journeyRunner).verifyAll(changes, options);
+      journeyRunner.storeData('changeLinkResults', results);
+    };
+  }
+
   // ==================== TASK LIST PATTERN ====================
 
   /**
    * Navigate to a task in a task list
    */
   static selectTask(taskName: string): StepBlock {
-    return async ({ page }) => {
-      await page.getByRole('link', { name: taskName }).click();
+    return async ({ page, journeyRunner }) => {
+      await journeyRunner.activate(page.getByRole('link', { name: taskName }), `"${taskName}" task link`);
     };
   }
 
   /**
    * Verify task status in task list
    */
-  static verifyTaskStatus(taskName: string, status: 'Not started' | 'In progress' | 'Completed'): StepBlock {
+  static verifyTaskStatus(taskName: string, status: TaskStatus): StepBlock {
     return async ({ page }) => {
       const taskRow = page.locator('.govuk-task-list__item', {
         has: page.getByText(taskName)
@@ -156,6 +176,293 @@ export class GovUKPatternBlocks {
     };
   }
 
+  /**
+   * Verify the status of several tasks at once
+   */
+  static verifyTaskList(expected: Record<string, TaskStatus>): StepBlock {
+    return async (context) => {
+      const driver = new TaskListDriver(context.page);
+      for (const [taskName, status] of Object.entries(expected)) {
+        await driver.verifyStatus(taskName, status);
+      }
+      await GovUKPatternBlocks.recordTaskStatuses(context, 'task list check');
+    };
+  }
+
+  /**
+   * Verify a task depends on another and cannot be started yet
+   */
+  static verifyCannotStartYet(taskName: string): StepBlock {
+    return async ({ page }) => {
+      await new TaskListDriver(page).verifyCannotStartYet(taskName);
+    };
+  }
+
+  /**
+   * Start a task without finishing it
+   * Runs the sub-journey, returns to the task list and verifies the task is now "In progress"
+   */
+  static startTask(taskName: string, configure: TaskJourney): StepBlock {
+    return async (context) => {
+      await GovUKPatternBlocks.runTask(context, taskName, configure);
+      await new TaskListDriver(context.page).verifyStatus(taskName, 'In progress');
+    };
+  }
+
+  /**
+   * Complete a task through a nested sub-journey
+   * Verifies the task moves to "Completed", and that any tasks it unlocks go from
+   * "Cannot start yet" to startable
+   */
+  static completeTask(taskName: string, configure: TaskJourney, options: { unlocks?: string[] } = {}): StepBlock {
+    return async (context) => {
+      const driver = new TaskListDriver(context.page);
+
+      for (const dependent of options.unlocks || []) {
+        await driver.verifyCannotStartYet(dependent);
+      }
+
+      await GovUKPatternBlocks.runTask(context, taskName, configure);
+      await driver.verifyStatus(taskName, 'Completed');
+
+      for (const dependent of options.unlocks || []) {
+        await driver.verifyCanStart(dependent);
+      }
+    };
+  }
+
+  /**
+   * Complete several tasks, in the order given
+   */
+  static completeTasks(tasks: Record<string, TaskJourney>): StepBlock {
+    return async (context) => {
+      for (const [taskName, configure] of Object.entries(tasks)) {
+        await GovUKPatternBlocks.completeTask(taskName, configure)(context);
+      }
+    };
+  }
+
+  /**
+   * Verify the statuses a task has shown on the task list so far, e.g.
+   * ['Not started', 'In progress', 'Completed']
+   */
+  static verifyTaskTransitions(taskName: string, expected: TaskStatus[]): StepBlock {
+    return async (context) => {
+      const history = GovUKPatternBlocks.taskStore(context).find(TASK_STATUS_HISTORY_KEY)?.[taskName] || [];
+      if (history.join(' → ') !== expected.join(' → ')) {
+        throw new Error(
+          `Expected task "${taskName}" to go ${expected.join(' → ')} but it went ${history.join(' → ') || 'nowhere'}`
+        );
+      }
+    };
+  }
+
+  /**
+   * Open a task from the task list, run its sub-journey and return to the task list
+   * If the sub-journey does not end on the task list, the task list is reloaded
+   */
+  private static async runTask(context: StepBlockContext, taskName: string, configure: TaskJourney): Promise<void> {
+    const { page, journeyRunner, componentHelper } = context;
+    const driver = new TaskListDriver(page);
+
+    const task = await driver.getTask(taskName);
+    if (!task.canStart) {
+      throw new Error(`Task "${taskName}" cannot be started (status "${task.status}")`);
+    }
+
+    const taskListUrl = page.url();
+    await GovUKPatternBlocks.recordTaskStatuses(context, `task "${taskName}"`);
+
+    await journeyRunner.waitForStepChange(async () => {
+      await journeyRunner.activate(page.getByRole('link', { name: taskName, exact: true }), `"${taskName}" task link`);
+    });
+
+    try {
+      await configure(new JourneyBuilder(page, journeyRunner, componentHelper, context.data)).execute();
+    } catch (error) {
+      throw new Error(`Task "${taskName}" failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!(await driver.isTaskListPage())) {
+      await journeyRunner.waitForStepChange(async () => {
+        await page.goto(taskListUrl);
+      });
+    }
+
+    await GovUKPatternBlocks.recordTaskStatuses(context, `task "${taskName}"`);
+  }
+
+  /**
+   * Append each task's current status to its history in the journey's data
+   * store, failing if any task went backwards
+   */
+  private static async recordTaskStatuses(context: StepBlockContext, producer: string): Promise<void> {
+    const statuses = await new TaskListDriver(context.page).getStatuses();
+    const store = GovUKPatternBlocks.taskStore(context);
+    const history = { ...store.find(TASK_STATUS_HISTORY_KEY) };
+
+    for (const [taskName, status] of Object.entries(statuses)) {
+      const taskHistory = history[taskName] || [];
+      if (taskHistory[taskHistory.length - 1] !== status) {
+        history[taskName] = [...taskHistory, status];
+        TaskListDriver.verifyProgression(taskName, history[taskName]);
+      }
+    }
+
+    store.set(TASK_STATUS_HISTORY_KEY, history, producer);
+  }
+
+  /**
+   * The journey's data store - or one over the context's shared data, for blocks run outside a JourneyBuilder
+   */
+  private static taskStore(context: StepBlockContext): JourneyDataStore {
+    if (!context.store) {
+      context.data = context.data || {};
+      context.store = new JourneyDataStore(context.data);
+    }
+    return context.store;
+  }
+
+  // ==================== ADD ANOTHER PATTERN ====================
+
+  /**
+   * Add items one at a time through an add-another loop
+   * Starts on the item page, verifies the summary list after each item and
+   * answers "Yes" to adding another between items. Ends on the summary page.
+   */
+  static addItems(items: AddAnotherItem[]): StepBlock {
+    return async (context) => {
+      for (const [index, item] of items.entries()) {
+        if (index > 0) {
+          await GovUKPatternBlocks.addAnother('Yes')(context);
+        }
+
+        await context.journeyRunner.fillStep(item.fields);
+        await context.journeyRunner.continue();
+
+        GovUKPatternBlocks.setAddedItems(context, [...GovUKPatternBlocks.getAddedItems(context), item.summary]);
+        await GovUKPatternBlocks.verifyAddedItems()(context);
+      }
+    };
+  }
+
+  /**
+   * Answer whether to add another item
+   * Uses the Yes/No question, or the "Add another" button and Continue
+   */
+  static addAnother(answer: 'Yes' | 'No'): StepBlock {
+    return async ({ page, journeyRunner }) => {
+      const pattern = await new PatternDetector(page).detectAddAnotherPattern();
+
+      if (pattern === 'radios') {
+        await journeyRunner.check(page.getByRole('group', { name: /add another/i }).getByRole('radio', { name: answer, exact: true }),
+          `"${answer}" radio in the add another question`);
+        await journeyRunner.continue();
+      } else if (pattern === 'button' && answer === 'Yes') {
+        await journeyRunner.waitForStepChange(async () => {
+          await journeyRunner.activate(page.getByRole('button', { name: /add another/i }), 'Add another button');
+        });
+      } else if (pattern === 'button') {
+        await journeyRunner.continue();
+      } else {
+        throw new Error('No add-another question or button found on this page');
+      }
+    };
+  }
+
+  /**
+   * Verify the summary list shows exactly the expected items, in order
+   * Defaults to the items added and not removed by the add-another blocks so far
+   */
+  static verifyAddedItems(expected?: string[]): StepBlock {
+    return async (context) => {
+      const items = expected ?? GovUKPatternBlocks.getAddedItems(context);
+      const actual = await new PatternDetector(context.page).getAddedItems();
+
+      const matches = actual.length === items.length && items.every((item, index) => actual[index].includes(item));
+      if (!matches) {
+        throw new Error(
+          `Added items do not match: expected [${items.join(', ')}], got [${actual.join(', ')}]`
+        );
+      }
+    };
+  }
+
+  /**
+   * Change an added item from the summary list
+   * Clicks its Change link, fills the item page and verifies the updated list
+   */
+  static changeItem(summary: string, fields: Record<string, FieldValue>, newSummary: string = summary): StepBlock {
+    return async (context) => {
+      const { journeyRunner } = context;
+
+      await journeyRunner.waitForStepChange(async () => {
+        await journeyRunner.activate(GovUKPatternBlocks.itemRow(context, summary).getByRole('link', { name: /^Change/ }),
+          `Change link for "${summary}"`);
+      });
+      await journeyRunner.fillStep(fields);
+      await journeyRunner.continue();
+
+      GovUKPatternBlocks.setAddedItems(
+        context,
+        GovUKPatternBlocks.getAddedItems(context).map(item => item === summary ? newSummary : item)
+      );
+      await GovUKPatternBlocks.verifyAddedItems()(context);
+    };
+  }
+
+  /**
+   * Remove an added item from the summary list
+   * Clicks its Remove link, confirms on the "Are you sure" page if there is one,
+   * and verifies the remaining list. Only a removal question is answered - an
+   * app that removes at once goes back to the summary, whose "add another"
+   * Yes is left alone.
+   */
+  static removeItem(summary: string): StepBlock {
+    return async (context) => {
+      const { page, journeyRunner } = context;
+
+      await journeyRunner.waitForStepChange(async () => {
+        await journeyRunner.activate(GovUKPatternBlocks.itemRow(context, summary).getByRole('link', { name: /^Remove/ }),
+          `Remove link for "${summary}"`);
+      });
+
+      const confirmRadio = page.locator('fieldset')
+        .filter({ has: page.locator('legend', { hasText: /remove|delete|are you sure/i }) })
+        .filter({ hasNot: page.locator('legend', { hasText: /add another/i }) })
+        .getByRole('radio', { name: 'Yes', exact: true });
+      if (await confirmRadio.isVisible().catch(() => false)) {
+        await journeyRunner.check(confirmRadio, `"Yes" radio confirming the removal of "${summary}"`);
+        await journeyRunner.continue();
+      } else {
+        const confirmButton = page.getByRole('button', { name: /remove/i });
+        if (await confirmButton.isVisible().catch(() => false)) {
+          await journeyRunner.waitForStepChange(async () => {
+            await journeyRunner.activate(confirmButton, 'Remove button');
+          });
+        }
+      }
+
+      GovUKPatternBlocks.setAddedItems(context, GovUKPatternBlocks.getAddedItems(context).filter(item => item !== summary));
+      await GovUKPatternBlocks.verifyAddedItems()(context);
+    };
+  }
+
+  private static itemRow({ page }: StepBlockContext, summary: string) {
+    return page.locator('.govuk-summary-list__row', {
+      has: page.locator('.govuk-summary-list__key', { hasText: summary })
+    });
+  }
+
+  private static getAddedItems(context: StepBlockContext): string[] {
+    return context.data?.[ADD_ANOTHER_ITEMS_KEY] || [];
+  }
+
+  private static setAddedItems(context: StepBlockContext, items: string[]): void {
+    context.data = context.data || {};
+    context.data[ADD_ANOTHER_ITEMS_KEY] = items;
+  }
+
   // ==================== NOTIFICATION BANNER PATTERN ====================
 
   /**
@@ -198,7 +505,11 @@ export class GovUKPatternBlocks {
    * Switch to a specific tab
    */
   static selectTab(tabName: string): StepBlock {
-    return async ({ page }) => {
+    return async ({ page, journeyRunner }) => {
+      // Only the selected tab is a tab stop - the others are reached with the arrow keys
+      if (journeyRunner.isKeyboardOnly()) {
+        throw new Error(`selectTab("${tabName}") cannot switch tabs in keyboard-only mode`);
+      }
       await page.getByRole('tab', { name: tabName }).click();
     };
   }
@@ -245,7 +556,7 @@ export class GovUKPatternBlocks {
    * Expand details component and verify content
    */
   static expandDetailsAndVerify(summary: string, expectedContent: string): StepBlock {
-    return async ({ page }) => {
+    return async ({ page, journeyRunner }) => {
       const details = page.locator('details', {
         has: page.locator('summary', { hasText: summary })
       });
@@ -253,7 +564,7 @@ export class GovUKPatternBlocks {
       // Expand if not already expanded
       const isOpen = await details.getAttribute('open');
       if (!isOpen) {
-        await details.locator('summary').click();
+        await journeyRunner.activate(details.locator('summary'), `"${summary}" details`);
       }
       
       await details.getByText(expectedContent).waitFor();
@@ -287,8 +598,8 @@ export class GovUKPatternBlocks {
    * Navigate to next page in pagination
    */
   static nextPage(): StepBlock {
-    return async ({ page }) => {
-      await page.getByRole('link', { name: /Next/i }).click();
+    return async ({ page, journeyRunner }) => {
+      await journeyRunner.activate(page.getByRole('link', { name: /Next/i }), 'Next page link');
     };
   }
 
@@ -296,8 +607,8 @@ export class GovUKPatternBlocks {
    * Navigate to previous page in pagination
    */
   static previousPage(): StepBlock {
-    return async ({ page }) => {
-      await page.getByRole('link', { name: /Previous/i }).click();
+    return async ({ page, journeyRunner }) => {
+      await journeyRunner.activate(page.getByRole('link', { name: /Previous/i }), 'Previous page link');
     };
   }
 
@@ -305,8 +616,8 @@ export class GovUKPatternBlocks {
    * Navigate to specific page number
    */
   static goToPage(pageNumber: number): StepBlock {
-    return async ({ page }) => {
-      await page.getByRole('link', { name: pageNumber.toString() }).click();
+    return async ({ page, journeyRunner }) => {
+      await journeyRunner.activate(page.getByRole('link', { name: pageNumber.toString() }), `page ${pageNumber} link`);
     };
   }
 
@@ -316,9 +627,9 @@ export class GovUKPatternBlocks {
    * Navigate using breadcrumb
    */
   static clickBreadcrumb(linkText: string): StepBlock {
-    return async ({ page }) => {
+    return async ({ page, journeyRunner }) => {
       const breadcrumb = page.locator('.govuk-breadcrumbs');
-      await breadcrumb.getByRole('link', { name: linkText }).click();
+      await journeyRunner.activate(breadcrumb.getByRole('link', { name: linkText }), `"${linkText}" breadcrumb`);
     };
   }
 
@@ -352,12 +663,12 @@ export class GovUKPatternBlocks {
    * Accept cookies
    */
   static acceptCookies(): StepBlock {
-    return async ({ page }) => {
+    return async ({ page, journeyRunner }) => {
       const cookieBanner = page.locator('.govuk-cookie-banner');
       const isVisible = await cookieBanner.isVisible().catch(() => false);
       
       if (isVisible) {
-        await cookieBanner.getByRole('button', { name: /Accept/i }).click();
+        await journeyRunner.activate(cookieBanner.getByRole('button', { name: /Accept/i }), 'Accept cookies button');
       }
     };
   }
@@ -366,12 +677,12 @@ export class GovUKPatternBlocks {
    * Reject cookies
    */
   static rejectCookies(): StepBlock {
-    return async ({ page }) => {
+    return async ({ page, journeyRunner }) => {
       const cookieBanner = page.locator('.govuk-cookie-banner');
       const isVisible = await cookieBanner.isVisible().catch(() => false);
       
       if (isVisible) {
-        await cookieBanner.getByRole('button', { name: /Reject/i }).click();
+        await journeyRunner.activate(cookieBanner.getByRole('button', { name: /Reject/i }), 'Reject cookies button');
       }
     };
   }
@@ -415,3 +726,25 @@ export class GovUKPatternBlocks {
     };
   }
 }
+
+/**
+ * Shared data key holding the statuses each task has shown, in order
+ */
+export const TASK_STATUS_HISTORY_KEY = 'taskStatusHistory';
+
+/**
+ * Builds the sub-journey that works through one task
+ */
+export type TaskJourney = (builder: JourneyBuilder) => JourneyBuilder;
+
+/**
+ * Shared data key holding the items added and not removed so far by the add-another blocks
+ */
+export const ADD_ANOTHER_ITEMS_KEY = 'addAnotherItems';
+
+export interface AddAnotherItem {
+  /** Fields to fill on the item page, keyed by label */
+  fields: Record<string, FieldValue>;
+  /** How the item is listed in the summary list, e.g. the first line of an address */
+  summary: string;
+}
@@ -0,0 +1,211 @@
+import { Page, TestInfo } from '@playwright/test';
+import { AccessibilityHelper } from './AccessibilityHelper';
+import { StepBlockContext } from './JourneyStepBlocks';
+import { AccessibilityBaseline, BaselineComparison } from './AccessibilityBaseline';
+
+/**
+ * Journey Accessibility
+ * Scans every page a JourneyBuilder journey visits for WCAG 2.1 AA
+ * violations - including each question page's error state after an empty
+ * submit - and collects them per page into one journey report
+ *
+ * Example usage:
+ * ```typescript
+ * await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *   .withAccessibilitySweep()
+ *   .addSteps(DataDrivenJourney.buildSteps(definition))
+ *   .execute();
+ * ```
+ *
+ * With a baseline (see AccessibilityBaseline), only violations the baseline
+ * does not know about fail the journey:
+ * ```typescript
+ * builder.withAccessibilitySweep({ baseline: AccessibilityBaseline.load() })
+ * ```
+ */
+
+export interface AccessibilityViolation {
+  id: string;
+  impact?: string | null;
+  help: string;
+  helpUrl: string;
+  nodes: number;
+  targets: string[];
+}
+
+export type ScannedPageState = 'page' | 'errors';
+
+export interface PageAccessibilityResult {
+  /** Step that led to the page */
+  step: string;
+  heading: string;
+  url: string;
+  state: ScannedPageState;
+  violations: AccessibilityViolation[];
+}
+
+export interface AccessibilitySweepOptions {
+  /** Also submit each question page empty and scan its error state (default true) */
+  errorStates?: boolean;
+  /** Fail the journey when any page has violations (default true) */
+  failOnViolations?: boolean;
+  /** Known violations that do not fail the journey */
+  baseline?: AccessibilityBaseline;
+}
+
+export class JourneyAccessibilitySweep {
+
+  /** Attachment name for the report in the Playwright report */
+  static readonly ATTACHMENT_NAME = 'journey-accessibility';
+
+  private pages: PageAccessibilityResult[] = [];
+
+  constructor(readonly options: AccessibilitySweepOptions = {}) {}
+
+  /**
+   * Forget the pages scanned by an earlier run
+   */
+  reset(): void {
+    this.pages = [];
+  }
+
+  /**
+   * Scan the page a step ended on, and its error state, unless already scanned
+   */
+  async scanStep(context: StepBlockContext, stepName: string): Promise<void> {
+    const { page, journeyRunner } = context;
+    if (page.isClosed() || page.url() === 'about:blank') {
+      return;
+    }
+
+    const heading = await this.currentHeading(page);
+    await this.scan(page, stepName, heading, 'page');
+
+    if (this.options.errorStates === false || this.isScanned(page.url(), heading, 'errors') || !await this.isQuestionPage(page)) {
+      return;
+    }
+
+    await journeyRunner.continue();
+
+    if (await this.currentHeading(page) !== heading) {
+      // Nothing on the page is required - go back for the step that answers it
+      await journeyRunner.goBack();
+      return;
+    }
+
+    if (await AccessibilityBaseline.pageState(page) === 'errors') {
+      await this.scan(page, stepName, heading, 'errors');
+    }
+  }
+
+  /**
+   * Get the result for every page scanned, in the order visited
+   */
+  getPages(): PageAccessibilityResult[] {
+    return [...this.pages];
+  }
+
+  /**
+   * Count violations across every page scanned
+   */
+  violationCount(): number {
+    return this.pages.reduce((total, result) => total + result.violations.length, 0);
+  }
+
+  /**
+   * Describe the violations on each page, or undefined if there are none
+   * With a baseline, only violations it does not know about are described.
+   */
+  describeViolations(): string | undefined {
+    const baseline = this.options.baseline;
+    if (baseline) {
+      const failing = this.compareWithBaseline(baseline).filter(comparison => comparison.new.length > 0);
+      return failing.length === 0 ? undefined : failing.map(AccessibilityBaseline.describe).join('\n');
+    }
+
+    const failing = this.pages.filter(result => result.violations.length > 0);
+    if (failing.length === 0) {
+      return undefined;
+    }
+
+    return `${this.violationCount()} accessibility violation(s) on ${failing.length} page(s):\n` +
+      failing.map(result =>
+        `    "${result.heading}"${result.state === 'errors' ? ' (error state)' : ''}: ` +
+        result.violations.map(violation => `${violation.id} [${violation.impact ?? 'unknown'}]`).join(', ')
+      ).join('\n');
+  }
+
+  /**
+   * Compare every page scanned with a baseline
+   */
+  compareWithBaseline(baseline: AccessibilityBaseline): BaselineComparison[] {
+    return this.pages.map(result =>
+      baseline.compare(AccessibilityBaseline.pageKey(result.url, result.heading, result.state), result.violations));
+  }
+
+  /**
+   * Format the report for the console or a text attachment
+   */
+  format(): string {
+    return this.pages.map(result => {
+      const mark = result.violations.length === 0 ? '✓' : '✗';
+      const state = result.state === 'errors' ? ' (error state)' : '';
+      const lines = [
+        `${mark} "${result.heading}"${state} after ${result.step} - ${result.url}`,
+        ...result.violations.map(violation =>
+          `    ${violation.id} [${violation.impact ?? 'unknown'}] ${violation.help} (${violation.nodes} element(s))`)
+      ];
+      return lines.join('\n');
+    }).join('\n');
+  }
+
+  /**
+   * Attach the report to the current test, as JSON and as a readable summary
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.options.baseline) {
+      for (const result of this.pages) {
+        this.options.baseline.check(testInfo, AccessibilityBaseline.pageKey(result.url, result.heading, result.state), result.violations);
+      }
+    }
+
+    await testInfo.attach(JourneyAccessibilitySweep.ATTACHMENT_NAME, {
+      body: JSON.stringify(this.pages, null, 2),
+      contentType: 'application/json'
+    });
+    await testInfo.attach(`${JourneyAccessibilitySweep.ATTACHMENT_NAME}.txt`, {
+      body: this.format(),
+      contentType: 'text/plain'
+    });
+  }
+
+  private async scan(page: Page, step: string, heading: string, state: ScannedPageState): Promise<void> {
+    if (this.isScanned(page.url(), heading, state)) {
+      return;
+    }
+
+    const results = await new AccessibilityHelper(page).scanWCAG_AA();
+
+    this.pages.push({
+      step,
+      heading,
+      url: page.url(),
+      state,
+      violations: AccessibilityBaseline.violationsFrom(results)
+    });
+  }
+
+  private isScanned(url: string, heading: string, state: ScannedPageState): boolean {
+    return this.pages.some(result => result.url === url && result.heading === heading && result.state === state);
+  }
+
+  private async isQuestionPage(page: Page): Promise<boolean> {
+    const fields = await page.locator('form input:not([type="hidden"]), form select, form textarea').count();
+    const continueButton = page.getByRole('button', { name: 'Continue' });
+    return fields > 0 && await continueButton.isVisible().catch(() => false);
+  }
+
+  private async currentHeading(page: Page): Promise<string> {
+    return (await page.locator('h1').first().textContent({ timeout: 1000 }).catch(() => null))?.trim() || '';
+  }
+}
@@ -1,7 +1,12 @@
-import { Page } from '@playwright/test';
+import { Page, TestInfo, test } from '@playwright/test';
 import { JourneyRunner } from './JourneyRunner';
 import { ComponentHelper } from './ComponentHelper';
 import { StepBlock, StepBlockContext } from './JourneyStepBlocks';
+import { JourneyTrace, JourneyTraceEntry, currentTestInfo } from './JourneyTrace';
+import { EnteredField } from './SummaryRows';
+import { JourneyCheckpoints } from './JourneyCheckpoints';
+import { JourneyDataStore } from './JourneyDataStore';
+import { AccessibilitySweepOptions, JourneyAccessibilitySweep, PageAccessibilityResult } from './JourneyAccessibility';
 
 /**
  * Journey Builder
@@ -17,11 +22,60 @@ import { StepBlock, StepBlockContext } from './JourneyStepBlocks';
  *   .addStep(JourneyStepBlocks.verifyConfirmation())
  *   .execute();
  * ```
+ *
+ * Branching journeys pick a path at runtime from shared data or page state:
+ * ```typescript
+ * await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *   .setData('applicantType', 'organisation')
+ *   .branch('applicant-type', branch => branch
+ *     .when({ applicantType: 'individual' }, JourneyStepBlocks.selectIndividualApplicant(), 'individual')
+ *     .when({ applicantType: 'organisation' }, JourneyStepBlocks.selectOrganisationApplicant(), 'organisation'))
+ *   .addStep(JourneyStepBlocks.fillContactDetails())
+ *   .execute();
+ * ```
+ *
+ * Deep pages can be tested without replaying the whole journey - mark a
+ * checkpoint, then run from it. The first run walks the journey and saves the
+ * checkpoint; later runs seed the saved browser state and start there:
+ * ```typescript
+ * await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *   .addSteps(stepsUpToDeclarations)
+ *   .checkpoint('driving-licence:declarations')
+ *   .addStep(GovUKPatternBlocks.checkboxList('Declarations', declarations))
+ *   .executeFrom('driving-licence:declarations');
+ * ```
+ *
+ * Steps share data through a typed store (see JourneyDataStore). Steps built
+ * with `dataStep` declare what they consume and produce, and anything a step
+ * stores on the journey runner is shared with later steps too.
+ *
+ * Steps can have their own hooks, retries for known-flaky transitions, or be
+ * soft - a failing soft step is reported but the journey keeps going, and
+ * execute() fails at the end listing every soft failure:
+ * ```typescript
+ * await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *   .beforeEachStep(async ({ page }) => { await page.waitForLoadState(); })
+ *   .addStep(JourneyStepBlocks.startJourney('/path'))
+ *   .addStep(JourneyStepBlocks.selectIndividualApplicant(), { name: 'applicant type', retries: 2 })
+ *   .addSoftStep(AdaptiveBlocks.verifyEnteredAnswers(), 'check answers match')
+ *   .execute();
+ * ```
+ *
+ * `withAccessibilitySweep()` scans every page the journey visits, and each
+ * question page's error state, for WCAG 2.1 AA violations (see JourneyAccessibility).
+ *
+ * Inside a test, each step runs as a named `test.step` and the run is
+ * attached to the report as a journey trace; a failing step also attaches a
+ * screenshot and the page's DOM.
  */
 export class JourneyBuilder {
-  private steps: StepBlock[] = [];
+  private steps: JourneyStep[] = [];
   private context: StepBlockContext;
-  private sharedData: Record<string, any> = {};
+  private store: JourneyDataStore;
+  private testInfo?: TestInfo;
+  private trace = new JourneyTrace();
+  private hooks: JourneyHooks = { beforeJourney: [], afterJourney: [], beforeEachStep: [], afterEachStep: [] };
+  private accessibility?: JourneyAccessibilitySweep;
 
   constructor(
     page: Page,
@@ -29,20 +83,23 @@ export class JourneyBuilder {
     componentHelper: ComponentHelper,
     initialData?: Record<string, any>
   ) {
+    this.store = new JourneyDataStore(initialData || {});
     this.context = {
       page,
       journeyRunner,
       componentHelper,
-      data: initialData || {}
+      data: this.store.toRecord(),
+      store: this.store
     };
-    this.sharedData = initialData || {};
   }
 
   /**
    * Add a single step block to the journey
+   * Named after the block (see namedStep) unless a name is given
    */
-  addStep(step: StepBlock): this {
-    this.steps.push(step);
+  addStep(step: StepBlock, options: string | StepOptions = {}): this {
+    const stepOptions = typeof options === 'string' ? { name: options } : options;
+    this.steps.push({ ...stepOptions, name: stepOptions.name || step.name, block: step });
     return this;
   }
 
@@ -50,27 +107,131 @@ export class JourneyBuilder {
    * Add multiple step blocks to the journey
    */
   addSteps(steps: StepBlock[]): this {
-    this.steps.push(...steps);
+    this.steps.push(...steps.map(step => ({ name: step.name, block: step })));
     return this;
   }
 
   /**
    * Add a custom step function
    */
-  addCustomStep(stepFn: (context: StepBlockContext) => Promise<void>): this {
-    this.steps.push(stepFn);
+  addCustomStep(stepFn: (context: StepBlockContext) => Promise<void>, options: string | StepOptions = {}): this {
+    return this.addStep(stepFn, options);
+  }
+
+  /**
+   * Add a soft step - if it fails, the failure is recorded and the journey carries on
+   */
+  addSoftStep(step: StepBlock, name?: string): this {
+    return this.addStep(step, { name, soft: true });
+  }
+
+  /**
+   * Run a hook before the journey's first step
+   */
+  beforeJourney(hook: JourneyHook): this {
+    this.hooks.beforeJourney.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook after the journey, whether it passed or failed
+   */
+  afterJourney(hook: JourneyHook): this {
+    this.hooks.afterJourney.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook before every step (and every retry of it)
+   */
+  beforeEachStep(hook: StepHook): this {
+    this.hooks.beforeEachStep.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a hook after every step (and every retry of it), whether it passed or failed
+   */
+  afterEachStep(hook: StepHook): this {
+    this.hooks.afterEachStep.push(hook);
     return this;
   }
 
+  /**
+   * Save a checkpoint of the journey at this point, for executeFrom
+   */
+  checkpoint(name: string): this {
+    return this.addStep(async ({ page, journeyRunner, data }) => {
+      await JourneyCheckpoints.save(name, page, journeyRunner, data, this.projectName());
+    }, checkpointStepName(name));
+  }
+
+  /**
+   * Report to a specific test - by default the builder reports to the running test, if any
+   */
+  withTestInfo(testInfo: TestInfo): this {
+    this.testInfo = testInfo;
+    return this;
+  }
+
+  /**
+   * Scan every page the journey visits for accessibility violations
+   * The report is attached to the test, and the journey fails at the end if any page has violations
+   */
+  withAccessibilitySweep(options: AccessibilitySweepOptions = {}): this {
+    this.accessibility = new JourneyAccessibilitySweep(options);
+    return this;
+  }
+
+  /**
+   * Get the accessibility results of the last execution, one per page scanned
+   */
+  getAccessibilityResults(): PageAccessibilityResult[] {
+    return this.accessibility?.getPages() ?? [];
+  }
+
+  /**
+   * Add a branch point - the first path whose condition matches is run
+   */
+  branch(name: string, configure: (branch: BranchBuilder) => BranchBuilder): this {
+    const branch = configure(new BranchBuilder(name));
+
+    this.addStep(async (context) => {
+      const path = await branch.selectPath(context);
+
+      context.data = context.data || {};
+      context.data[BRANCH_PATHS_KEY] = { ...context.data[BRANCH_PATHS_KEY], [name]: path.label };
+
+      for (const step of path.steps) {
+        await step(context);
+      }
+    }, `branch: ${name}`);
+
+    return this;
+  }
+
+  /**
+   * Get the path label taken at each branch point during the last execution
+   */
+  getBranchPaths(): Record<string, string> {
+    return this.sharedData[BRANCH_PATHS_KEY] || {};
+  }
+
   /**
    * Set shared data that will be available to all steps
    */
   setData(key: string, value: any): this {
-    this.sharedData[key] = value;
-    this.context.data = this.sharedData;
+    this.store.setUntyped(key, value, 'setData');
     return this;
   }
 
+  /**
+   * Get the store of data shared between steps
+   */
+  getStore(): JourneyDataStore {
+    return this.store;
+  }
+
   /**
    * Get shared data
    */
@@ -80,27 +241,225 @@ export class JourneyBuilder {
 
   /**
    * Execute all steps in sequence
+   * Stops at the first failing step; soft step failures and accessibility
+   * violations are reported together at the end
    */
   async execute(): Promise<void> {
-    for (let i = 0; i < this.steps.length; i++) {
-      const step = this.steps[i];
-      
+    const testInfo = this.testInfo ?? currentTestInfo();
+    const softFailures: string[] = [];
+    this.trace = new JourneyTrace();
+    this.accessibility?.reset();
+
+    try {
+      for (const hook of this.hooks.beforeJourney) {
+        await hook(this.context);
+      }
+
+      for (let i = 0; i < this.steps.length; i++) {
+        const step = this.steps[i];
+        const stepName = step.name || `step ${i + 1}`;
+        const run = () => this.executeStep(i + 1, stepName, step, testInfo);
+
+        try {
+          if (testInfo) {
+            await test.step(`${i + 1}. ${stepName}${step.soft ? ' (soft)' : ''}`, run);
+          } else {
+            await run();
+          }
+        } catch (error) {
+          if (!step.soft) {
+            throw error;
+          }
+          softFailures.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    } finally {
+      for (const hook of this.hooks.afterJourney) {
+        await hook(this.context);
+      }
+      if (testInfo) {
+        await this.trace.attach(testInfo);
+        await this.accessibility?.attach(testInfo);
+      }
+    }
+
+    const violations = this.accessibility?.options.failOnViolations !== false && this.accessibility?.describeViolations();
+    if (violations) {
+      softFailures.push(violations);
+    }
+
+    if (softFailures.length > 0) {
+      throw new Error(
+        `Journey finished with ${softFailures.length} failure(s):\n` +
+        softFailures.map(failure => `  - ${failure}`).join('\n')
+      );
+    }
+  }
+
+  /**
+   * Execute the journey from a checkpoint
+   *
+   * Seeds the checkpoint's saved state and runs only the steps after it. Walks
+   * the whole journey instead (saving the checkpoint on the way) when there is
+   * no saved checkpoint, checkpoints are turned off, or the app does not
+   * resume on the checkpoint's page.
+   */
+  async executeFrom(checkpointName: string): Promise<void> {
+    const index = this.steps.findIndex(step => step.name === checkpointStepName(checkpointName));
+    if (index === -1) {
+      throw new Error(`Journey has no checkpoint "${checkpointName}"`);
+    }
+
+    const checkpoint = JourneyCheckpoints.enabled() ? JourneyCheckpoints.load(checkpointName, this.projectName()) : undefined;
+    if (checkpoint) {
+      const { page, journeyRunner } = this.context;
+
+      if (await JourneyCheckpoints.restore(page, journeyRunner, checkpoint)) {
+        for (const [key, value] of Object.entries(checkpoint.data)) {
+          if (this.sharedData[key] === undefined) {
+            this.store.setUntyped(key, value, `checkpoint "${checkpointName}"`);
+          }
+        }
+        await this.executeRange(index + 1, this.steps.length - 1);
+        return;
+      }
+
+      console.log(`Could not resume from checkpoint "${checkpointName}" - walking the whole journey`);
+      await JourneyCheckpoints.clearSeededState(page);
+    }
+
+    await this.execute();
+  }
+
+  /**
+   * Get the trace of the last execution, one entry per step run
+   */
+  getTrace(): JourneyTraceEntry[] {
+    return this.trace.getEntries();
+  }
+
+  /**
+   * Run one step with its hooks and retries, then the accessibility scan of
+   * the page it ended on, recording it in the trace and capturing the page if
+   * either fails
+   */
+  private async executeStep(index: number, name: string, step: JourneyStep, testInfo?: TestInfo): Promise<void> {
+    const started = Date.now();
+    const enteredBefore = this.countEnteredFields();
+    const attempts = (step.retries ?? 0) + 1;
+    let stepPassed = false;
+
+    for (let attempt = 1; ; attempt++) {
       try {
-        // Update context with latest shared data
-        this.context.data = this.sharedData;
-        
-        // Execute the step
-        await step(this.context);
-        
-        // Sync any data stored in journeyRunner back to shared data
-        this.syncDataFromJourneyRunner();
-        
+        // Once the step has passed only the scan is retried - the journey has already moved on
+        if (!stepPassed) {
+          await this.attemptStep({ index, name, attempt }, step);
+          stepPassed = true;
+        }
+        await this.accessibility?.scanStep(this.context, name);
+
+        this.trace.record({
+          index,
+          name,
+          heading: await this.currentHeading(),
+          entered: this.enteredSince(enteredBefore),
+          durationMs: Date.now() - started,
+          attempts: attempt,
+          outcome: 'passed'
+        });
+        break;
       } catch (error) {
-        throw new Error(`Journey failed at step ${i + 1}: ${error}`);
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (attempt < attempts) {
+          console.log(`Step ${index} (${name}) failed on attempt ${attempt} of ${attempts}, retrying: ${message}`);
+          await this.context.page.waitForTimeout(step.retryDelayMs ?? 0);
+          continue;
+        }
+
+        const heading = await this.currentHeading();
+        this.trace.record({
+          index,
+          name,
+          heading,
+          entered: this.enteredSince(enteredBefore),
+          durationMs: Date.now() - started,
+          attempts: attempt,
+          outcome: step.soft ? 'soft-failed' : 'failed',
+          error: message
+        });
+
+        if (testInfo) {
+          await JourneyTrace.captureFailure(this.context.page, testInfo, index);
+        }
+
+        const tries = attempts > 1 ? ` after ${attempts} attempts` : '';
+        throw new Error(`Journey failed at step ${index} (${name}) on "${heading}"${tries}: ${message}`);
       }
     }
   }
 
+  /**
+   * Run a step once, between its before and after hooks
+   */
+  private async attemptStep(info: StepHookInfo, step: JourneyStep): Promise<void> {
+    const before = [...this.hooks.beforeEachStep, ...(step.before ? [step.before] : [])];
+    const after = [...(step.after ? [step.after] : []), ...this.hooks.afterEachStep];
+
+    // Update context with latest shared data
+    this.context.data = this.sharedData;
+    this.context.store = this.store;
+
+    let failure: unknown;
+    try {
+      for (const hook of before) {
+        await hook(this.context, info);
+      }
+
+      // Execute the step
+      await step.block(this.context);
+
+      // Share anything the step stored on the journey runner
+      this.syncDataFromJourneyRunner(info.name);
+    } catch (error) {
+      failure = error;
+    }
+
+    for (const hook of after) {
+      await hook(this.context, failure === undefined ? info : { ...info, error: failure });
+    }
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  private async currentHeading(): Promise<string> {
+    if (this.context.page.isClosed()) {
+      return '';
+    }
+    const heading = await this.context.page.locator('h1').first().textContent({ timeout: 1000 }).catch(() => null);
+    return heading?.trim() || '';
+  }
+
+  /**
+   * The browser project the journey runs under - checkpoints are kept per project
+   */
+  private projectName(): string | undefined {
+    return (this.testInfo ?? currentTestInfo())?.project.name || undefined;
+  }
+
+  private countEnteredFields(): number {
+    return this.context.journeyRunner.getEnteredValues().reduce((count, step) => count + step.fields.length, 0);
+  }
+
+  /**
+   * Fields entered since the count was taken - replaced values are not repeated
+   */
+  private enteredSince(count: number): EnteredField[] {
+    return this.context.journeyRunner.getEnteredValues().flatMap(step => step.fields).slice(count);
+  }
+
   /**
    * Execute steps up to a specific index (useful for testing partial journeys)
    */
@@ -146,29 +505,24 @@ export class JourneyBuilder {
    * Reset shared data
    */
   resetData(): this {
-    this.sharedData = {};
-    this.context.data = {};
+    this.store = new JourneyDataStore();
+    this.context.data = this.store.toRecord();
+    this.context.store = this.store;
     return this;
   }
 
+  private get sharedData(): Record<string, any> {
+    return this.store.toRecord();
+  }
+
   /**
    * Sync data from JourneyRunner to shared data
-   * This allows steps to share data through the JourneyRunner's storage
-   */
-  private syncDataFromJourneyRunner(): void {
-    // Common data keys that might be stored in JourneyRunner
-    const commonKeys = [
-      'contactData',
-      'companyData',
-      'addressData',
-      'aircraftData',
-      'referenceNumber'
-    ];
-
-    for (const key of commonKeys) {
-      const value = this.context.journeyRunner.getData(key);
-      if (value !== undefined) {
-        this.sharedData[key] = value;
+   * Every value the step stored or changed on the runner is recorded as produced by that step
+   */
+  private syncDataFromJourneyRunner(stepName: string): void {
+    for (const [key, value] of Object.entries(this.context.journeyRunner.getAllData())) {
+      if (value !== undefined && this.sharedData[key] !== value) {
+        this.store.setUntyped(key, value, stepName);
       }
     }
   }
@@ -184,58 +538,175 @@ export class JourneyBuilder {
       { ...this.sharedData }
     );
     cloned.steps = [...this.steps];
+    cloned.accessibility = this.accessibility && new JourneyAccessibilitySweep(this.accessibility.options);
+    cloned.hooks = {
+      beforeJourney: [...this.hooks.beforeJourney],
+      afterJourney: [...this.hooks.afterJourney],
+      beforeEachStep: [...this.hooks.beforeEachStep],
+      afterEachStep: [...this.hooks.afterEachStep]
+    };
     return cloned;
   }
 }
 
+export interface StepHookInfo {
+  index: number;
+  name: string;
+  attempt: number;
+  /** Set for after hooks when the step failed */
+  error?: unknown;
+}
+
+export type StepHook = (context: StepBlockContext, step: StepHookInfo) => Promise<void>;
+
+export type JourneyHook = (context: StepBlockContext) => Promise<void>;
+
+export interface StepOptions {
+  name?: string;
+  /** Times to re-run the step if it fails, for known-flaky transitions */
+  retries?: number;
+  retryDelayMs?: number;
+  /** Record a failure and carry on walking the journey */
+  soft?: boolean;
+  before?: StepHook;
+  after?: StepHook;
+}
+
+interface JourneyStep extends StepOptions {
+  name: string;
+  block: StepBlock;
+}
+
+interface JourneyHooks {
+  beforeJourney: JourneyHook[];
+  afterJourney: JourneyHook[];
+  beforeEachStep: StepHook[];
+  afterEachStep: StepHook[];
+}
+
+function checkpointStepName(name: string): string {
+  return `checkpoint: ${name}`;
+}
+
+/**
+ * Shared data key holding the path taken at each branch point
+ */
+export const BRANCH_PATHS_KEY = 'branchPaths';
+
+export type BranchPredicate = (context: StepBlockContext) => boolean | Promise<boolean>;
+
+/**
+ * Condition for a branch path - either a predicate over the step context or
+ * a set of shared data values that must all match
+ */
+export type BranchCondition = BranchPredicate | Record<string, any>;
+
+interface BranchPath {
+  label: string;
+  condition?: BranchCondition;
+  steps: StepBlock[];
+}
+
+/**
+ * Branch Builder
+ * Describes the alternative paths at a single branch point of a journey
+ */
+export class BranchBuilder {
+  private paths: BranchPath[] = [];
+  private fallback?: BranchPath;
+
+  constructor(private name: string) {}
+
+  /**
+   * Add a path that runs when the condition matches
+   */
+  when(condition: BranchCondition, steps: StepBlock | StepBlock[], label?: string): this {
+    this.paths.push({
+      label: label || `path ${this.paths.length + 1}`,
+      condition,
+      steps: Array.isArray(steps) ? steps : [steps]
+    });
+    return this;
+  }
+
+  /**
+   * Add the path that runs when no other condition matches
+   */
+  otherwise(steps: StepBlock | StepBlock[], label: string = 'otherwise'): this {
+    this.fallback = { label, steps: Array.isArray(steps) ? steps : [steps] };
+    return this;
+  }
+
+  /**
+   * Get the labels of every path, including the fallback
+   */
+  getPathLabels(): string[] {
+    return [...this.paths, ...(this.fallback ? [this.fallback] : [])].map(path => path.label);
+  }
+
+  /**
+   * Pick the path to run for the current context
+   */
+  async selectPath(context: StepBlockContext): Promise<BranchPath> {
+    for (const path of this.paths) {
+      if (await this.matches(path.condition as BranchCondition, context)) {
+        return path;
+      }
+    }
+
+    if (this.fallback) {
+      return this.fallback;
+    }
+
+    throw new Error(
+      `No path matched at branch "${this.name}" (paths: ${this.getPathLabels().join(', ')}) and no otherwise() path was given`
+    );
+  }
+
+  private async matches(condition: BranchCondition, context: StepBlockContext): Promise<boolean> {
+    if (typeof condition === 'function') {
+      return await condition(context);
+    }
+
+    return Object.entries(condition).every(([key, value]) => context.data?.[key] === value);
+  }
+}
+
 /**
- * Journey Template Builder
- * Pre-configured journey templates for common patterns
+ * Branch Conditions
+ * Common conditions for choosing a branch path
  */
-export class JourneyTemplates {
-  
+export class BranchConditions {
+
   /**
-   * Create a basic individual application journey template
+   * Match when shared data has the given value
    */
-  static individualApplication(
-    page: Page,
-    journeyRunner: JourneyRunner,
-    componentHelper: ComponentHelper,
-    journeyPath: string
-  ): JourneyBuilder {
-    return new JourneyBuilder(page, journeyRunner, componentHelper)
-      .addCustomStep(async ({ journeyRunner }) => {
-        await journeyRunner.startJourney(journeyPath);
-      });
+  static dataEquals(key: string, value: any): BranchPredicate {
+    return ({ data }) => data?.[key] === value;
   }
 
   /**
-   * Create a basic organisation application journey template
+   * Match when the current page shows the given heading
    */
-  static organisationApplication(
-    page: Page,
-    journeyRunner: JourneyRunner,
-    componentHelper: ComponentHelper,
-    journeyPath: string
-  ): JourneyBuilder {
-    return new JourneyBuilder(page, journeyRunner, componentHelper)
-      .addCustomStep(async ({ journeyRunner }) => {
-        await journeyRunner.startJourney(journeyPath);
-      });
+  static headingIs(headingText: string): BranchPredicate {
+    return async ({ page }) => {
+      return await page.getByRole('heading', { name: headingText, exact: true }).first().isVisible();
+    };
   }
 
   /**
-   * Create a multi-page form journey template
+   * Match when an element matching the selector is visible
    */
-  static multiPageForm(
-    page: Page,
-    journeyRunner: JourneyRunner,
-    componentHelper: ComponentHelper,
-    journeyPath: string
-  ): JourneyBuilder {
-    return new JourneyBuilder(page, journeyRunner, componentHelper)
-      .addCustomStep(async ({ journeyRunner }) => {
-        await journeyRunner.startJourney(journeyPath);
-      });
+  static isVisible(selector: string): BranchPredicate {
+    return async ({ page }) => {
+      return await page.locator(selector).first().isVisible();
+    };
+  }
+
+  /**
+   * Match when the given condition does not
+   */
+  static not(condition: BranchPredicate): BranchPredicate {
+    return async (context) => !(await condition(context));
   }
 }
@@ -0,0 +1,208 @@
+/// <reference lib="dom" />
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, Page } from '@playwright/test';
+import { JourneyRunner, JourneyRunnerState } from './JourneyRunner';
+
+/**
+ * Journey Checkpoints
+ * Snapshots of a journey in progress - browser storage plus the runner's
+ * state - saved at named points so later tests can start there instead of
+ * walking through every earlier page
+ *
+ * Checkpoints are written to playwright/.checkpoints (or JOURNEY_CHECKPOINT_DIR),
+ * one directory per browser project. They expire after
+ * JOURNEY_CHECKPOINT_MAX_AGE_MINUTES (60 by default) or when a saved cookie
+ * does. Set JOURNEY_CHECKPOINTS=off to always walk the whole journey.
+ */
+
+export interface BrowserState {
+  /** Cookies and localStorage, as returned by BrowserContext.storageState() */
+  storageState: Awaited<ReturnType<BrowserContext['storageState']>>;
+  /** sessionStorage of the current origin - storageState leaves it out */
+  sessionStorage: Record<string, string>;
+}
+
+export interface JourneyCheckpoint extends BrowserState {
+  name: string;
+  url: string;
+  heading: string;
+  runner: JourneyRunnerState;
+  /** JourneyBuilder shared data */
+  data: Record<string, any>;
+  savedAt: string;
+}
+
+const CHECKPOINT_MARKER = '__journeyCheckpoint';
+const DEFAULT_MAX_AGE_MINUTES = 60;
+
+export class JourneyCheckpoints {
+
+  /**
+   * Directory checkpoints are kept in
+   */
+  static directory(): string {
+    return process.env.JOURNEY_CHECKPOINT_DIR || path.join('playwright', '.checkpoints');
+  }
+
+  /**
+   * How old a checkpoint may be before it is treated as missing
+   */
+  static maxAgeMinutes(): number {
+    const minutes = Number(process.env.JOURNEY_CHECKPOINT_MAX_AGE_MINUTES);
+    return minutes > 0 ? minutes : DEFAULT_MAX_AGE_MINUTES;
+  }
+
+  /**
+   * Whether tests may start from saved checkpoints
+   */
+  static enabled(): boolean {
+    return process.env.JOURNEY_CHECKPOINTS !== 'off';
+  }
+
+  /**
+   * Capture the page's cookies, localStorage and sessionStorage
+   */
+  static async captureBrowserState(page: Page): Promise<BrowserState> {
+    return {
+      storageState: await page.context().storageState(),
+      sessionStorage: await page.evaluate(() => ({ ...sessionStorage }))
+    };
+  }
+
+  /**
+   * Save a checkpoint of the journey as it stands
+   *
+   * The file is written beside its final name and renamed into place, so
+   * tests running in parallel never read a half-written checkpoint.
+   */
+  static async save(
+    name: string,
+    page: Page,
+    journeyRunner: JourneyRunner,
+    data: Record<string, any> = {},
+    project?: string
+  ): Promise<JourneyCheckpoint> {
+    const checkpoint: JourneyCheckpoint = {
+      name,
+      url: page.url(),
+      heading: (await page.locator('h1').first().textContent())?.trim() || '',
+      ...await this.captureBrowserState(page),
+      runner: journeyRunner.getState(),
+      data,
+      savedAt: new Date().toISOString()
+    };
+
+    const file = this.filePath(name, project);
+    const temporary = `${file}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(temporary, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(temporary, file);
+
+    return checkpoint;
+  }
+
+  /**
+   * Load a saved checkpoint, or undefined if there is none
+   *
+   * A checkpoint that cannot be read or has expired is treated as missing,
+   * so the journey is walked and the checkpoint saved again.
+   */
+  static load(name: string, project?: string): JourneyCheckpoint | undefined {
+    const file = this.filePath(name, project);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    let checkpoint: JourneyCheckpoint;
+    try {
+      checkpoint = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.log(`Ignoring unreadable checkpoint "${name}": ${(error as Error).message}`);
+      return undefined;
+    }
+
+    if (this.isExpired(checkpoint)) {
+      console.log(`Ignoring expired checkpoint "${name}" saved at ${checkpoint.savedAt}`);
+      return undefined;
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Seed the page's browser context with a checkpoint's state and open the page it was taken on
+   *
+   * Returns false when the app does not land back on the checkpoint's page -
+   * it keeps journey state on the server, or the checkpoint is stale - so the
+   * caller can walk the journey instead.
+   */
+  static async restore(page: Page, journeyRunner: JourneyRunner, checkpoint: JourneyCheckpoint): Promise<boolean> {
+    const context = page.context();
+    await context.clearCookies();
+    await context.addCookies(checkpoint.storageState.cookies);
+
+    // Storage is seeded once per tab, before the app's scripts first run
+    await context.addInitScript(({ marker, name, origins, session }) => {
+      if (sessionStorage.getItem(marker) === name) {
+        return;
+      }
+
+      const local = origins.find(origin => origin.origin === location.origin);
+      for (const { name: key, value } of local?.localStorage || []) {
+        localStorage.setItem(key, value);
+      }
+      if (session.origin === location.origin) {
+        for (const [key, value] of Object.entries(session.entries)) {
+          sessionStorage.setItem(key, value);
+        }
+      }
+      sessionStorage.setItem(marker, name);
+    }, {
+      marker: CHECKPOINT_MARKER,
+      name: checkpoint.name,
+      origins: checkpoint.storageState.origins,
+      session: { origin: new URL(checkpoint.url).origin, entries: checkpoint.sessionStorage }
+    });
+
+    await journeyRunner.resumeJourney(checkpoint.url, checkpoint.runner);
+
+    const heading = (await page.locator('h1').first().textContent().catch(() => null))?.trim() || '';
+    return heading === checkpoint.heading;
+  }
+
+  /**
+   * Clear the state a failed restore seeded, so the journey can be walked from the start
+   */
+  static async clearSeededState(page: Page): Promise<void> {
+    await page.context().clearCookies();
+    await page.evaluate((marker) => {
+      localStorage.clear();
+      const seeded = sessionStorage.getItem(marker);
+      sessionStorage.clear();
+      if (seeded) {
+        sessionStorage.setItem(marker, seeded);
+      }
+    }, CHECKPOINT_MARKER).catch(() => {
+      // Nothing loaded - nothing to clear
+    });
+  }
+
+  private static isExpired(checkpoint: JourneyCheckpoint): boolean {
+    const savedAt = Date.parse(checkpoint.savedAt);
+    if (Number.isNaN(savedAt) || Date.now() - savedAt > this.maxAgeMinutes() * 60_000) {
+      return true;
+    }
+    // Session cookies have no expiry (-1)
+    return (checkpoint.storageState?.cookies || [])
+      .some(cookie => cookie.expires > 0 && cookie.expires * 1000 < Date.now());
+  }
+
+  private static filePath(name: string, project?: string): string {
+    const directory = project ? path.join(this.directory(), safeFileName(project)) : this.directory();
+    return path.join(directory, `${safeFileName(name)}.json`);
+  }
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^a-z0-9-_]+/gi, '_');
+}
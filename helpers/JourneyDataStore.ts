@@ -0,0 +1,167 @@
+import { StepBlock, StepBlockContext, namedStep } from './JourneyStepBlocks';
+import { TestDataFactory } from './TestDataFactory';
+import { SubmissionOutcome } from './SubmissionOutcome';
+
+/**
+ * Journey Data Store
+ * Typed data shared between the steps of a JourneyBuilder journey, recording
+ * which step produced each value
+ *
+ * Keys and their types are declared in JourneyDataTypes. Journeys can add
+ * their own keys by augmenting it:
+ * ```typescript
+ * declare module '../../helpers/JourneyDataStore' {
+ *   interface JourneyDataTypes {
+ *     licenceNumber: string;
+ *   }
+ * }
+ * ```
+ *
+ * Steps declare what they consume and produce:
+ * ```typescript
+ * builder.addStep(dataStep({
+ *   name: 'confirm contact email',
+ *   consumes: ['contactData'],
+ *   run: async ({ journeyRunner }, { contactData }) => {
+ *     await journeyRunner.verifyText(contactData.email);
+ *     return {};
+ *   }
+ * }));
+ * ```
+ */
+
+export interface JourneyDataTypes {
+  contactData: ReturnType<typeof TestDataFactory.generateContactDetails>;
+  companyData: ReturnType<typeof TestDataFactory.generateCompanyDetails>;
+  addressData: ReturnType<typeof TestDataFactory.generateAddress>;
+  aircraftData: ReturnType<typeof TestDataFactory.generateAircraftData>;
+  referenceNumber: string;
+  submissionOutcome: SubmissionOutcome;
+  /** Statuses each task has shown on the task list, in order (see GovUKPatternBlocks) */
+  taskStatusHistory: Record<string, string[]>;
+}
+
+export type JourneyDataKey = keyof JourneyDataTypes;
+
+export type JourneyDataValues<K extends JourneyDataKey> = { [P in K]: JourneyDataTypes[P] };
+
+export class MissingJourneyDataError extends Error {
+  constructor(consumer: string, key: string, produced: string[]) {
+    super(
+      `Step "${consumer}" reads "${key}", but no earlier step produced it. ` +
+      `Produced so far: ${produced.length > 0 ? produced.join(', ') : 'nothing'}`
+    );
+    this.name = 'MissingJourneyDataError';
+  }
+}
+
+export class JourneyDataStore {
+  private producers = new Map<string, string>();
+
+  /**
+   * Wrap a journey's shared data - values already present count as produced by `source`
+   */
+  constructor(
+    private values: Record<string, any> = {},
+    source: string = 'initial data'
+  ) {
+    for (const key of Object.keys(values)) {
+      this.producers.set(key, source);
+    }
+  }
+
+  /**
+   * Store a value, recording the step that produced it
+   */
+  set<K extends JourneyDataKey>(key: K, value: JourneyDataTypes[K], producer: string): void {
+    this.setUntyped(key, value, producer);
+  }
+
+  /**
+   * Store a value under a key not declared in JourneyDataTypes
+   */
+  setUntyped(key: string, value: unknown, producer: string): void {
+    this.values[key] = value;
+    this.producers.set(key, producer);
+  }
+
+  /**
+   * Read a value an earlier step produced, failing if none did
+   */
+  get<K extends JourneyDataKey>(key: K, consumer: string): JourneyDataTypes[K] {
+    if (this.values[key] === undefined) {
+      throw new MissingJourneyDataError(consumer, key, this.produced());
+    }
+    return this.values[key];
+  }
+
+  /**
+   * Read several values at once, failing on the first no earlier step produced
+   */
+  getAll<K extends JourneyDataKey>(keys: readonly K[], consumer: string): JourneyDataValues<K> {
+    const result = {} as JourneyDataValues<K>;
+    for (const key of keys) {
+      result[key] = this.get(key, consumer);
+    }
+    return result;
+  }
+
+  /**
+   * Read a value if any step produced it
+   */
+  find<K extends JourneyDataKey>(key: K): JourneyDataTypes[K] | undefined {
+    return this.values[key];
+  }
+
+  /**
+   * Get the step that produced a value
+   */
+  producerOf(key: string): string | undefined {
+    return this.values[key] === undefined ? undefined : this.producers.get(key);
+  }
+
+  /**
+   * Get every key produced so far
+   */
+  produced(): string[] {
+    return Object.keys(this.values).filter(key => this.values[key] !== undefined);
+  }
+
+  /**
+   * Get the underlying shared data
+   */
+  toRecord(): Record<string, any> {
+    return this.values;
+  }
+}
+
+export interface DataStepDefinition<C extends JourneyDataKey, P extends JourneyDataKey> {
+  name: string;
+  consumes?: readonly C[];
+  produces?: readonly P[];
+  run: (context: StepBlockContext, input: JourneyDataValues<C>) => Promise<JourneyDataValues<P>>;
+}
+
+/**
+ * Build a step block that declares the data it consumes and produces
+ * Fails before running when a consumed key was never produced, and after
+ * running when a declared key was not returned.
+ */
+export function dataStep<C extends JourneyDataKey = never, P extends JourneyDataKey = never>(
+  definition: DataStepDefinition<C, P>
+): StepBlock {
+  return namedStep(definition.name, async (context) => {
+    context.data = context.data || {};
+    const store = context.store ?? new JourneyDataStore(context.data);
+
+    const input = store.getAll(definition.consumes || [], definition.name);
+    const output = await definition.run(context, input);
+
+    for (const key of definition.produces || []) {
+      if (output[key] === undefined) {
+        throw new Error(`Step "${definition.name}" declares it produces "${key}" but did not return it`);
+      }
+      store.set(key, output[key], definition.name);
+    }
+  });
+}
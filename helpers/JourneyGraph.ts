@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import { TestInfo } from '@playwright/test';
+import { JourneyDefinition, StoryDocument } from '../tests/shared/validation/schemas';
+
+/**
+ * Journey Graph
+ * Models a journey as pages and the transitions between them, so every
+ * distinct route through the journey can be enumerated and covered
+ *
+ * Example usage:
+ * ```typescript
+ * const graph = JourneyGraph.fromDefinition(DataDrivenJourney.load('register-a-plane'));
+ *
+ * for (const route of graph.enumerateRoutes()) {
+ *   test(`should complete ${route.id}`, async ({ page, journeyRunner, componentHelper }) => {
+ *     await new JourneyBuilder(page, journeyRunner, componentHelper)
+ *       .addSteps(DataDrivenJourney.buildRouteSteps(definition, route))
+ *       .execute();
+ *   });
+ * }
+ * ```
+ */
+
+export interface JourneyChoice {
+  field: string;
+  option: string;
+}
+
+export interface JourneyTransition {
+  from: string;
+  to: string;
+  choice?: JourneyChoice;
+}
+
+export interface JourneyRoute {
+  id: string;
+  pages: string[];
+  transitions: JourneyTransition[];
+}
+
+export class JourneyGraph {
+  constructor(
+    private startPage: string,
+    private pages: string[],
+    private transitions: JourneyTransition[]
+  ) {}
+
+  /**
+   * Build the graph for a journey definition
+   *
+   * Each option of a step's first radios field is a separate transition. A
+   * step with `next` sends each option to the step named for it - options it
+   * does not name have no transition - and a step without `next` sends every
+   * option to the following step.
+   */
+  static fromDefinition(definition: JourneyDefinition): JourneyGraph {
+    const pages = definition.steps.map(step => step.name);
+    const transitions: JourneyTransition[] = [];
+
+    definition.steps.forEach((step, index) => {
+      const following = definition.steps[index + 1]?.name;
+      const choiceField = step.fields?.find(field => field.type === 'radios');
+
+      if (!choiceField) {
+        if (following) {
+          transitions.push({ from: step.name, to: following });
+        }
+        return;
+      }
+
+      for (const option of choiceField.options || []) {
+        const to = step.next ? step.next[option] : following;
+        if (to) {
+          transitions.push({ from: step.name, to, choice: { field: choiceField.name, option } });
+        }
+      }
+    });
+
+    return new JourneyGraph(pages[0], pages, transitions);
+  }
+
+  /**
+   * Build the graph from known page sequences, e.g. story test scenario pageIds
+   */
+  static fromPageSequences(sequences: string[][]): JourneyGraph {
+    const pages: string[] = [];
+    const transitions: JourneyTransition[] = [];
+
+    for (const sequence of sequences) {
+      sequence.forEach((page, index) => {
+        if (!pages.includes(page)) {
+          pages.push(page);
+        }
+
+        const to = sequence[index + 1];
+        if (to && !transitions.some(t => t.from === page && t.to === to)) {
+          transitions.push({ from: page, to });
+        }
+      });
+    }
+
+    return new JourneyGraph(sequences[0]?.[0] ?? '', pages, transitions);
+  }
+
+  /**
+   * Build the graph from every test scenario in a story document
+   */
+  static fromStory(story: StoryDocument): JourneyGraph {
+    return this.fromPageSequences(
+      story.stories.flatMap(s => s.testScenarios.map(scenario => scenario.pageIds))
+    );
+  }
+
+  /**
+   * Describe a transition as a stable key, e.g. `applicant-type --[applicant-type=An individual]--> aircraft-details`
+   */
+  static transitionKey(transition: JourneyTransition): string {
+    const label = transition.choice ? `--[${transition.choice.field}=${transition.choice.option}]-->` : '-->';
+    return `${transition.from} ${label} ${transition.to}`;
+  }
+
+  getPages(): string[] {
+    return [...this.pages];
+  }
+
+  getTransitions(): JourneyTransition[] {
+    return [...this.transitions];
+  }
+
+  /**
+   * Check whether a page ends the journey - it has no transitions out
+   */
+  isTerminal(page: string): boolean {
+    return !this.transitions.some(t => t.from === page);
+  }
+
+  /**
+   * Enumerate every route from the start page to a terminal page, never
+   * visiting the same page twice on one route
+   * A route that can only go on by revisiting a page never completes the
+   * journey, so it is left out.
+   */
+  enumerateRoutes(): JourneyRoute[] {
+    const routes: JourneyRoute[] = [];
+
+    const walk = (page: string, pages: string[], transitions: JourneyTransition[]) => {
+      const outgoing = this.transitions.filter(t => t.from === page && !pages.includes(t.to));
+
+      if (outgoing.length === 0) {
+        if (this.isTerminal(page)) {
+          routes.push({ id: this.routeId(transitions), pages, transitions });
+        }
+        return;
+      }
+
+      for (const transition of outgoing) {
+        walk(transition.to, [...pages, transition.to], [...transitions, transition]);
+      }
+    };
+
+    if (this.startPage) {
+      walk(this.startPage, [this.startPage], []);
+    }
+
+    return routes;
+  }
+
+  private routeId(transitions: JourneyTransition[]): string {
+    const choices = transitions
+      .filter(t => t.choice)
+      .map(t => `${t.choice!.field}=${t.choice!.option}`);
+
+    if (choices.length > 0) {
+      return choices.join(', ');
+    }
+    return transitions.length > 0 ? transitions.map(t => t.to).join(' > ') : this.startPage;
+  }
+}
+
+export interface JourneyCoverageRecord {
+  journeyId: string;
+  route: JourneyRoute;
+}
+
+export interface JourneyCoverageReport {
+  journeyId: string;
+  pages: { covered: string[]; missed: string[] };
+  transitions: { covered: string[]; missed: string[] };
+}
+
+/**
+ * Journey Coverage
+ * Records the routes tests completed and reports which pages and transitions
+ * of a journey graph were never exercised
+ */
+export class JourneyCoverage {
+
+  /** File name written into each test's output directory */
+  static readonly FILE_NAME = 'journey-coverage.json';
+
+  /**
+   * Record a completed route in the current test's output directory
+   */
+  static save(testInfo: TestInfo, journeyId: string, route: JourneyRoute): void {
+    const record: JourneyCoverageRecord = { journeyId, route };
+    fs.writeFileSync(testInfo.outputPath(this.FILE_NAME), JSON.stringify(record, null, 2));
+  }
+
+  /**
+   * Compare the recorded routes for a journey against its graph
+   */
+  static report(journeyId: string, graph: JourneyGraph, records: JourneyCoverageRecord[]): JourneyCoverageReport {
+    const routes = records.filter(record => record.journeyId === journeyId).map(record => record.route);
+    const visitedPages = new Set(routes.flatMap(route => route.pages));
+    const visitedTransitions = new Set(routes.flatMap(route => route.transitions.map(t => JourneyGraph.transitionKey(t))));
+
+    const pages = graph.getPages();
+    const transitions = graph.getTransitions().map(t => JourneyGraph.transitionKey(t));
+
+    return {
+      journeyId,
+      pages: {
+        covered: pages.filter(page => visitedPages.has(page)),
+        missed: pages.filter(page => !visitedPages.has(page))
+      },
+      transitions: {
+        covered: transitions.filter(key => visitedTransitions.has(key)),
+        missed: transitions.filter(key => !visitedTransitions.has(key))
+      }
+    };
+  }
+
+  /**
+   * Format a coverage report for the console
+   */
+  static format(report: JourneyCoverageReport): string {
+    const pageTotal = report.pages.covered.length + report.pages.missed.length;
+    const transitionTotal = report.transitions.covered.length + report.transitions.missed.length;
+    const lines = [
+      `${report.journeyId}`,
+      `  Pages: ${report.pages.covered.length}/${pageTotal} exercised`,
+      ...report.pages.missed.map(page => `    not exercised: ${page}`),
+      `  Transitions: ${report.transitions.covered.length}/${transitionTotal} exercised`,
+      ...report.transitions.missed.map(key => `    not exercised: ${key}`)
+    ];
+    return lines.join('\n');
+  }
+}
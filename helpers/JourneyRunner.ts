@@ -1,227 +1,398 @@
-import { Page, expect } from '@playwright/test';
+import { Locator, Page, Response, expect } from '@playwright/test';
+import { StepChange, StepChangeDetector } from './StepChangeDetector';
+import { SubmissionOutcome, SubmissionOutcomeDetector } from './SubmissionOutcome';
+import { FieldFiller } from './FieldFiller';
+import { FieldControl, FieldValue } from './FieldControl';
+import { EnteredField, EnteredStep } from './SummaryRows';
+import { KeyboardDriver } from './KeyboardDriver';
+import { FocusAction, FocusCheckMode, FocusManagement, FocusManagementError, FocusRecord } from './FocusManagement';
+import { SubmissionTolerance, getEnvironmentConfig } from '../config/environments';
+
+/**
+ * Everything a JourneyRunner knows about a journey in progress
+ */
+export interface JourneyRunnerState {
+  journeyPath: string;
+  currentStep: number;
+  data: Record<string, any>;
+  entered: EnteredStep[];
+}
 
 /**
  * Journey Runner Helper
  * Provides utilities for running multi-step user journeys
+ *
+ * This is the only journey runner - tests/shared/journeys/runner.ts re-exports it,
+ * and the fixtures in fixtures/base.fixture.ts construct it.
  */
 export class JourneyRunner {
   private currentStep: number = 0;
   private journeyData: Map<string, any> = new Map();
+  private journeyPath: string = '';
+  private enteredValues: EnteredStep[] = [];
+  /** Step a Change link was followed from, and its heading - continue returns there */
+  private changeReturn?: { step: number; heading: string };
+  private stepChangeDetector: StepChangeDetector;
+  private fieldFiller: FieldFiller;
+  private keyboard?: KeyboardDriver;
+  private focusCheckMode: FocusCheckMode = 'record';
+  private focusRecords: FocusRecord[] = [];
 
   constructor(
     private page: Page,
-    private baseURL: string = 'http://localhost:5173'
-  ) {}
+    private baseURL: string = 'http://localhost:5173',
+    private submissionTolerances: SubmissionTolerance[] = getEnvironmentConfig().submissionTolerances || []
+  ) {
+    this.stepChangeDetector = new StepChangeDetector(page);
+    this.fieldFiller = new FieldFiller(page);
+  }
 
   /**
    * Start a journey by navigating to its entry point
    */
   async startJourney(journeyPath: string): Promise<void> {
+    this.journeyPath = journeyPath;
+    await this.stepChangeDetector.install();
     await this.page.goto(`${this.baseURL}${journeyPath}`);
+    await this.stepChangeDetector.waitForSettled(this.getStepTimeout());
     this.currentStep = 0;
+    this.changeReturn = undefined;
     this.journeyData.clear();
+    this.enteredValues = [];
+    this.focusRecords = [];
+  }
+
+  /**
+   * Pick up a journey part way through, e.g. from a checkpoint
+   * Restores the runner's state and opens the page the journey had reached
+   */
+  async resumeJourney(url: string, state: JourneyRunnerState): Promise<void> {
+    this.journeyPath = state.journeyPath;
+    this.currentStep = state.currentStep;
+    this.changeReturn = undefined;
+    this.journeyData = new Map(Object.entries(state.data));
+    this.enteredValues = state.entered.map(step => ({ ...step, fields: [...step.fields] }));
+
+    await this.stepChangeDetector.install();
+    await this.page.goto(url);
+    await this.stepChangeDetector.waitForSettled(this.getStepTimeout());
+  }
+
+  /**
+   * Get the runner's state, so the journey can be resumed later
+   */
+  getState(): JourneyRunnerState {
+    return {
+      journeyPath: this.journeyPath,
+      currentStep: this.currentStep,
+      data: this.getAllData(),
+      entered: this.getEnteredValues()
+    };
+  }
+
+  /**
+   * Complete the journey with the keyboard only - every field, button and
+   * link is reached with Tab and operated with Space, Enter, arrow keys and
+   * typing (see KeyboardDriver)
+   */
+  useKeyboardOnly(enabled: boolean = true): void {
+    this.keyboard = enabled ? new KeyboardDriver(this.page) : undefined;
+    this.fieldFiller.useKeyboard(this.keyboard);
+  }
+
+  /**
+   * Check whether the runner is in keyboard-only mode
+   */
+  isKeyboardOnly(): boolean {
+    return this.keyboard !== undefined;
+  }
+
+  /**
+   * Choose what happens to the focus check after every continue, goBack and
+   * failed submission: 'record' (the default) keeps the result for
+   * getFocusRecords, 'enforce' also fails the action when focus is not where
+   * GOV.UK expects it (see FocusManagement), 'off' skips the check
+   */
+  setFocusChecks(mode: FocusCheckMode): void {
+    this.focusCheckMode = mode;
+  }
+
+  /**
+   * Get where focus landed after each continue, goBack and failed submission since the journey started
+   */
+  getFocusRecords(): FocusRecord[] {
+    return [...this.focusRecords];
+  }
+
+  /**
+   * Start a journey - alias of startJourney for specs written against the shared runner
+   */
+  async start(journeyPath: string): Promise<void> {
+    await this.startJourney(journeyPath);
   }
 
   /**
    * Fill form fields on the current step
+   *
+   * Each label is resolved to the control it names (see FieldFiller). Keys in
+   * `legend: option` form pick a radio within a group, and a list of options
+   * whose label names no group checks each option by its own label.
    */
-  async fillStep(data: Record<string, string | string[] | { day: string; month: string; year: string }>): Promise<void> {
+  async fillStep(data: Record<string, FieldValue>): Promise<void> {
     for (const [field, value] of Object.entries(data)) {
-      if (Array.isArray(value)) {
-        // Handle checkboxes - check each option
+      if (field.includes(': ') && typeof value === 'string') {
+        const [legend, option] = field.split(': ');
+        const radio = this.page.getByRole('group', { name: legend }).getByRole('radio', { name: option, exact: true });
+        await this.check(radio, `"${option}" radio in "${legend}"`);
+        await this.recordEntered({ label: legend, kind: 'radios', value: option });
+      } else if (Array.isArray(value) && (await this.fieldFiller.findCandidates(field, false)).length === 0) {
         for (const option of value) {
           await this.checkCheckbox(option);
         }
-      } else if (this.isDateField(field)) {
-        // Handle date fields with special logic
-        await this.fillDateField(field, value);
       } else {
-        // Check if this is a radio button by looking for a radio input associated with this label
-        // Handle legend:option format for unique radio identification
-        if (field.includes(': ')) {
-          const [legend, option] = field.split(': ');
-          await this.page.getByRole('group', { name: legend }).getByRole('radio', { name: option, exact: true }).check();
-        } else {
-          try {
-            const labelLocator = this.page.getByLabel(field, { exact: true });
-            const inputType = await labelLocator.getAttribute('type');
-
-            if (inputType === 'radio') {
-              // Handle radio buttons - use getByRole for more reliable selection
-              await this.page.getByRole('radio', { name: field, exact: true }).check();
-            } else {
-              // Handle text inputs
-              await this.page.getByLabel(field, { exact: true }).fill(value as string);
-            }
-          } catch (error) {
-            // If we can't determine the input type, assume it's a text input
-            await this.page.getByLabel(field, { exact: true }).fill(value as string);
-          }
-        }
+        const control = await this.fieldFiller.fill(field, value);
+        await this.recordControl(control, field, value);
       }
     }
   }
 
+  /**
+   * Fill form fields and continue to next step
+   */
+  async fillAndContinue(data: Record<string, FieldValue>): Promise<void> {
+    await this.fillStep(data);
+    await this.continue();
+  }
+
   /**
    * Select a radio option
    */
   async selectRadio(label: string): Promise<void> {
-    await this.page.getByLabel(label, { exact: true }).check();
+    const control = await this.fieldFiller.fill(label, label);
+    await this.recordControl(control, label, label);
+  }
+
+  /**
+   * Select radio and continue
+   */
+  async selectRadioAndContinue(label: string): Promise<void> {
+    await this.selectRadio(label);
+    await this.continue();
   }
 
   /**
    * Check a checkbox
    */
   async checkCheckbox(label: string): Promise<void> {
-    await this.page.getByLabel(label, { exact: true }).check();
+    const control = await this.fieldFiller.fill(label, label);
+    await this.recordControl(control, label, label);
+  }
+
+  /**
+   * Run an action and wait until the journey moves to another step (or the
+   * current step shows validation errors) and the page has settled
+   *
+   * Detects client-side route changes from the h1, URL and history API rather
+   * than waiting a fixed time.
+   */
+  async waitForStepChange(action: () => Promise<void>, timeout: number = this.getStepTimeout()): Promise<StepChange> {
+    const before = await this.stepChangeDetector.capture();
+    await action();
+
+    try {
+      return await this.stepChangeDetector.waitForChange(before, timeout);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Step did not change from "${before.heading}" within ${timeout}ms: ${message}`);
+    }
   }
 
   /**
    * Click the Continue button
    */
   async continue(): Promise<void> {
-    await this.page.waitForTimeout(500);
-
-    const continueButton = this.page.getByRole('button', { name: 'Continue' });
-    await continueButton.click();
+    const documentBefore = await FocusManagement.documentId(this.page);
+    const change = await this.waitForStepChange(async () => {
+      await this.activate(this.page.getByRole('button', { name: 'Continue' }), 'Continue button');
+    });
 
-    this.currentStep++;
+    if (change.changed && this.changeReturn?.heading === change.toHeading) {
+      this.currentStep = this.changeReturn.step;
+      this.changeReturn = undefined;
+      await this.checkFocus('continue', documentBefore);
+    } else if (change.changed) {
+      this.currentStep++;
+      await this.checkFocus('continue', documentBefore);
+    } else if (change.hasErrors) {
+      await this.checkFocus('failed-submit', documentBefore);
+    }
   }
 
   /**
    * Submit the journey from Check Your Answers page
-   * Handles the "Accept and send" button and waits for server response
-   * Note: Journey uses client-side routing, so we wait for content instead of URL change
+   *
+   * Returns the confirmed outcome, or an outcome the environment explicitly
+   * tolerates (see `submissionTolerances` in config/environments.ts).
+   * Any other outcome fails with the page state and captured response.
    */
-  async submit(): Promise<void> {
-    // Check for "Journey not found" error before submission
-    const journeyErrorAlert = this.page.locator('text="Journey not found"');
-    const hasJourneyError = await journeyErrorAlert.isVisible().catch(() => false);
-    
-    if (hasJourneyError) {
-      console.log('Detected "Journey not found" error - this is expected in the deployed environment');
-      console.log('This is a known limitation of the prototype UI when deployed to Vercel');
-      console.log('Considering test successful for CI purposes');
+  async submit(): Promise<SubmissionOutcome> {
+    const outcome = await this.submitForOutcome();
+
+    if (outcome.status === 'confirmed') {
       this.currentStep++;
-      return;
+      return outcome;
     }
-    
-    // Click "Accept and send" button
-    await this.page.getByRole('button', { name: /Accept and send|Continue/i }).click();
-    
-    // Take a screenshot right after clicking for debugging
-    try {
-      await this.page.screenshot({ path: 'post-submission-click.png' });
-    } catch (screenshotError) {
-      console.log('Could not take post-submission screenshot:', screenshotError);
+
+    const tolerance = SubmissionOutcomeDetector.findTolerance(outcome, this.submissionTolerances);
+    if (tolerance) {
+      console.log(`Tolerating ${outcome.status} submission outcome: ${tolerance.reason}`);
+      return outcome;
     }
 
-    try {
-      // Wait for the confirmation page to load (client-side routing, URL doesn't change)
-      // Look for confirmation heading or panel with increased timeout for CI environments
-      // Use environment variable PLAYWRIGHT_TIMEOUT if set, otherwise default to 120000ms (2 minutes)
-      const submissionTimeout = parseInt(process.env.PLAYWRIGHT_TIMEOUT || '120000', 10);
-      console.log(`Using submission timeout: ${submissionTimeout}ms`);
-      
-      await this.page.waitForSelector('h1:has-text("Application submitted"), .govuk-panel__title, h1:has-text("Confirmation"), h1:has-text("Thank you")', {
-        timeout: submissionTimeout
-      });
-      
-      console.log('Found confirmation page element');
-      
-      // Additional verification that we're on a confirmation page
-      const confirmationElement = await this.page.locator('h1:has-text("Application submitted"), .govuk-panel__title, h1:has-text("Confirmation"), h1:has-text("Thank you")').first();
-      const isVisible = await confirmationElement.isVisible().catch(() => false);
-      
-      if (isVisible) {
-        console.log('Found confirmation element on page');
+    throw new Error(`Journey submission was not confirmed (${SubmissionOutcomeDetector.describe(outcome)})`);
+  }
+
+  /**
+   * Click "Accept and send" and report what happened, without failing on a
+   * rejected or errored submission
+   * Journey uses client-side routing, so the outcome is read from the page
+   * once it has settled rather than from a URL change
+   */
+  async submitForOutcome(): Promise<SubmissionOutcome> {
+    const detector = new SubmissionOutcomeDetector(this.page);
+
+    // The journey may already be broken before anything is sent
+    const existingError = await detector.findServerErrorText();
+    if (existingError) {
+      const outcome = await detector.detect();
+      this.storeData('submissionOutcome', outcome);
+      return outcome;
+    }
+
+    let submissionResponse: Response | undefined;
+    const onResponse = (response: Response) => {
+      const request = response.request();
+      if (request.method() !== 'GET' && ['document', 'fetch', 'xhr'].includes(request.resourceType())) {
+        submissionResponse = response;
       }
+    };
+
+    const documentBefore = await FocusManagement.documentId(this.page);
+    this.page.on('response', onResponse);
+    try {
+      await this.waitForStepChange(async () => {
+        await this.activate(this.page.getByRole('button', { name: /Accept and send|Continue/i }), 'submit button');
+      }, this.getSubmissionTimeout());
     } catch (error) {
-      // If we can't find the exact heading, check if we're on a new page after submission
-      // This is a fallback for CI environments where the exact text might differ
-      console.log('Could not find exact confirmation heading, checking for page change...');
-      
-      // Take a screenshot for debugging - with error handling for closed browser
-      try {
-        await this.page.screenshot({ path: 'confirmation-page-fallback.png' });
-      } catch (screenshotError) {
-        console.log('Could not take screenshot, browser may have been closed:', screenshotError);
-      }
-      
-      // Check for "Journey not found" error that might appear after submission
-      try {
-        const journeyErrorAlert = this.page.locator('text="Journey not found"');
-        const hasJourneyError = await journeyErrorAlert.isVisible().catch(() => false);
-        
-        if (hasJourneyError) {
-          console.log('Detected "Journey not found" error after submission - this is expected in the deployed environment');
-          console.log('This is a known limitation of the prototype UI when deployed to Vercel');
-          console.log('Considering test successful for CI purposes');
-          return;
-        }
-      } catch (errorCheckError) {
-        console.log('Error checking for journey error:', errorCheckError);
-      }
-      
-      // Consider the test successful if we've moved past the "Check your answers" page
-      try {
-        // Check if we're still on the Check your answers page
-        const checkAnswersCount = await this.page.getByRole('heading', { name: 'Check your answers', exact: true }).count();
-        const onCheckAnswersPage = checkAnswersCount > 0;
-        
-        if (onCheckAnswersPage) {
-          console.log('Still on Check your answers page - submission likely failed');
-          throw new Error(`Failed to submit journey: ${error}`);
-        } else {
-          console.log('No longer on Check your answers page - considering submission successful');
-        }
-      } catch (pageError) {
-        // If we can't check the page state, the browser might have been closed
-        console.log('Error checking page state, browser may have been closed:', pageError);
-        // Assume we're not on the check answers page if we can't check
-        // This helps tests pass in CI when the browser closes but the form was actually submitted
-        console.log('Assuming journey completed successfully despite browser closing');
-      }
+      // No transition - classify whatever the page now shows
+      console.log('No step change detected after submission:', error instanceof Error ? error.message : error);
+    } finally {
+      this.page.off('response', onResponse);
     }
 
-    this.currentStep++;
+    const response = submissionResponse ? await SubmissionOutcomeDetector.captureResponse(submissionResponse) : undefined;
+    const outcome = await detector.detect(response);
+
+    this.storeData('submissionOutcome', outcome);
+    if (outcome.status === 'confirmed' && outcome.referenceNumber) {
+      this.storeData('referenceNumber', outcome.referenceNumber);
+    }
+    if (outcome.status === 'validation-rejected') {
+      await this.checkFocus('failed-submit', documentBefore);
+    }
+
+    return outcome;
   }
 
   /**
    * Click the Back link or button
    */
   async goBack(): Promise<void> {
-    // Note: Removed waitForLoadState since journey uses client-side routing
-
     // Try button first (most common in GOV.UK forms)
     const backButton = this.page.getByRole('button', { name: 'Back' });
     const backButtonVisible = await backButton.isVisible().catch(() => false);
+    const documentBefore = await FocusManagement.documentId(this.page);
 
-    if (backButtonVisible) {
-      await backButton.click();
+    const change = await this.waitForStepChange(async () => {
+      if (backButtonVisible) {
+        await this.activate(backButton, 'Back button');
+      } else {
+        // Fall back to link
+        await this.activate(this.page.getByRole('link', { name: 'Back' }), 'Back link');
+      }
+    });
+
+    if (change.changed) {
+      this.currentStep--;
+      await this.checkFocus('goBack', documentBefore);
+    }
+  }
+
+  /**
+   * Click a button or link - or, in keyboard-only mode, tab to it and press Enter
+   * Blocks use this for controls the runner has no method for, so keyboard-only mode holds for them too.
+   */
+  async activate(target: Locator, description: string): Promise<void> {
+    if (this.keyboard) {
+      await this.keyboard.activate(target, description);
+    } else {
+      await target.click();
+    }
+  }
+
+  /**
+   * Select a radio or check a checkbox - or, in keyboard-only mode, reach it from the keyboard and press Space
+   */
+  async check(target: Locator, description: string): Promise<void> {
+    if (this.keyboard) {
+      await this.keyboard.check(target, description);
     } else {
-      // Fall back to link
-      await this.page.getByRole('link', { name: 'Back' }).click();
+      await target.check();
     }
+  }
 
-    this.currentStep--;
+  /**
+   * Click a change link in the summary list
+   */
+  async clickChange(fieldLabel: string): Promise<void> {
+    const row = this.page.locator('.govuk-summary-list__row', {
+      has: this.page.locator('.govuk-summary-list__key', { hasText: fieldLabel })
+    });
+    await this.followChangeLink(row.locator('.govuk-summary-list__actions a').first(), `Change link for "${fieldLabel}"`);
   }
 
   /**
-   * Verify heading on current page
+   * Follow a Change link back to an earlier question
+   *
+   * While on the question, the runner is at the step that question was
+   * answered on - found by its heading - so changed answers replace the ones
+   * entered there. The continue that comes back to the page the link was on
+   * returns the runner to that page's step.
    */
-  async verifyHeading(headingText: string): Promise<void> {
-    // Note: Removed waitForLoadState('domcontentloaded') since journey uses client-side routing
-    await this.page.waitForTimeout(200); // Brief pause for SPA updates
+  async followChangeLink(link: Locator, description: string): Promise<StepChange> {
+    const from = this.currentStep;
+    const change = await this.waitForStepChange(async () => {
+      await this.activate(link, description);
+    });
+
+    const question = [...this.enteredValues].reverse().find(step => step.heading === change.toHeading);
+    if (change.changed && question) {
+      this.changeReturn = { step: from, heading: change.fromHeading };
+      this.currentStep = question.step;
+    }
+    return change;
+  }
 
+  /**
+   * Verify heading on current page
+   * Matches the whole heading unless `exact: false` is passed
+   */
+  async verifyHeading(headingText: string, options: { exact?: boolean } = {}): Promise<void> {
+    // Step transitions are awaited by waitForStepChange, so the heading should already be rendered
     // Use getByRole with exact matching, then .first() to resolve strict mode violations from duplicate headings
-    const headingLocator = this.page.getByRole('heading', { name: headingText, exact: true }).first();
+    const headingLocator = this.page.getByRole('heading', { name: headingText, exact: options.exact ?? true }).first();
     
-    // Use environment variable PLAYWRIGHT_TIMEOUT if set, otherwise default to 60000ms (1 minute)
-    const headingTimeout = parseInt(process.env.PLAYWRIGHT_TIMEOUT || '60000', 10);
-    console.log(`Using heading verification timeout: ${headingTimeout}ms for "${headingText}"`); 
-    
-    await headingLocator.waitFor({ state: 'visible', timeout: headingTimeout });
+    await headingLocator.waitFor({ state: 'visible', timeout: this.getStepTimeout() });
 
     // Verify the heading is actually visible and contains the expected text
     const isVisible = await headingLocator.isVisible();
@@ -238,8 +409,111 @@ export class JourneyRunner {
   /**
    * Verify we're on a specific step by checking the heading
    */
-  async assertOnStep(headingText: string): Promise<void> {
-    await this.verifyHeading(headingText);
+  async assertOnStep(headingText: string, options: { exact?: boolean } = {}): Promise<void> {
+    await this.verifyHeading(headingText, options);
+  }
+
+  /**
+   * Verify text is visible on page
+   */
+  async verifyText(text: string): Promise<void> {
+    await expect(this.page.getByText(text)).toBeVisible();
+  }
+
+  /**
+   * Verify summary list row
+   */
+  async verifySummaryRow(key: string, value: string): Promise<void> {
+    const row = this.page.locator('.govuk-summary-list__row', {
+      has: this.page.locator('.govuk-summary-list__key', { hasText: key })
+    });
+    await expect(row.locator('.govuk-summary-list__value')).toContainText(value);
+  }
+
+  /**
+   * Verify error summary is visible
+   */
+  async verifyErrorSummary(expectedErrors?: string[]): Promise<void> {
+    const errorSummary = this.page.locator('.govuk-error-summary');
+    await expect(errorSummary).toBeVisible();
+
+    if (expectedErrors) {
+      for (const error of expectedErrors) {
+        await expect(errorSummary.getByText(error, { exact: false })).toBeVisible();
+      }
+    }
+  }
+
+  /**
+   * Verify field error message
+   */
+  async verifyFieldError(fieldId: string, errorMessage: string): Promise<void> {
+    const error = this.page.locator(`#${fieldId}-error`);
+    await expect(error).toBeVisible();
+    await expect(error).toContainText(errorMessage);
+  }
+
+  /**
+   * Get validation errors from error summary, keyed by the id of the field each links to
+   */
+  async getValidationErrors(): Promise<Record<string, string>> {
+    const errorSummary = this.page.locator('.govuk-error-summary');
+    const errors: Record<string, string> = {};
+
+    const errorLinks = await errorSummary.locator('a').all();
+    for (const link of errorLinks) {
+      const text = await link.textContent();
+      const href = await link.getAttribute('href');
+      if (text && href) {
+        errors[href.replace('#', '')] = text.trim();
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Verify confirmation page
+   */
+  async verifyConfirmation(expectedTitle: string = 'Application submitted'): Promise<void> {
+    const panel = this.page.locator('.govuk-panel');
+    await expect(panel).toBeVisible();
+    await expect(panel.locator('.govuk-panel__title')).toContainText(expectedTitle);
+  }
+
+  /**
+   * Get reference number from confirmation page
+   */
+  async getReferenceNumber(): Promise<string | null> {
+    const body = await this.page.locator('.govuk-panel .govuk-panel__body').textContent();
+
+    if (body) {
+      const match = body.match(/APP-[A-Z0-9]+-[A-Z0-9]+/);
+      return match ? match[0] : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Click autofill button (if available)
+   */
+  async autofill(): Promise<void> {
+    const autofillButton = this.page.getByRole('button', { name: /Auto-fill|Autofill/i });
+    if (await autofillButton.isVisible()) {
+      await this.activate(autofillButton, 'Autofill button');
+    }
+  }
+
+  /**
+   * Complete entire journey with provided data
+   * Fills and continues through one step per entry, storing each step's data under its name
+   */
+  async completeJourney(journeyData: Record<string, Record<string, string>>): Promise<void> {
+    for (const [stepName, stepData] of Object.entries(journeyData)) {
+      await this.fillAndContinue(stepData);
+      this.storeData(stepName, stepData);
+    }
   }
 
   /**
@@ -256,6 +530,20 @@ export class JourneyRunner {
     return this.journeyData.get(key);
   }
 
+  /**
+   * Get all stored data
+   */
+  getAllData(): Record<string, any> {
+    return Object.fromEntries(this.journeyData);
+  }
+
+  /**
+   * Get every value entered since the journey started, grouped by step
+   */
+  getEnteredValues(): EnteredStep[] {
+    return this.enteredValues.map(step => ({ ...step, fields: [...step.fields] }));
+  }
+
   /**
    * Get current step number
    */
@@ -263,6 +551,13 @@ export class JourneyRunner {
     return this.currentStep;
   }
 
+  /**
+   * Get current journey path
+   */
+  getJourneyPath(): string {
+    return this.journeyPath;
+  }
+
   /**
    * Wait for navigation after action
    */
@@ -270,6 +565,13 @@ export class JourneyRunner {
     await this.page.waitForLoadState('networkidle');
   }
 
+  /**
+   * Wait for specific selector
+   */
+  async waitFor(selector: string, timeout: number = 5000): Promise<void> {
+    await this.page.waitForSelector(selector, { timeout });
+  }
+
   /**
    * Take screenshot of current step
    */
@@ -280,70 +582,76 @@ export class JourneyRunner {
     });
   }
 
+
   /**
-   * Check if a field is a date field that needs special handling
+   * Record where focus landed after an action, failing in 'enforce' mode when it is not where expected
    */
-  private isDateField(fieldName: string): boolean {
-    const lowerField = fieldName.toLowerCase();
-    return lowerField.includes('date') &&
-           !lowerField.includes('certificate') &&
-           !lowerField.includes('passport');
+  private async checkFocus(action: FocusAction, documentBefore: number): Promise<void> {
+    if (this.focusCheckMode === 'off') {
+      return;
+    }
+
+    const fullPageLoad = await FocusManagement.documentId(this.page) !== documentBefore;
+    const record = await FocusManagement.check(this.page, action, { fullPageLoad });
+    this.focusRecords.push(record);
+
+    if (!record.passed) {
+      if (this.focusCheckMode === 'enforce') {
+        throw new FocusManagementError(record);
+      }
+      console.log(`Focus check: ${FocusManagement.describe(record)}`);
+    }
   }
 
   /**
-   * Fill a date field with proper object format for GOV.UK date components
+   * Record a filled control - a single radio or checkbox is recorded against its question
    */
-  private async fillDateField(fieldName: string, value: string | string[] | { day: string; month: string; year: string }): Promise<void> {
-    let dateObj: { day: string; month: string; year: string };
-
-    if (typeof value === 'object' && !Array.isArray(value)) {
-      // Already in object format
-      dateObj = value;
-    } else if (typeof value === 'string') {
-      // Parse string format (supports '01/01/1990' or '01 01 1990')
-      const parts = value.split(/[\/ ]/).filter(p => p.length > 0);
-      if (parts.length === 3) {
-        dateObj = { day: parts[0], month: parts[1], year: parts[2] };
-      } else {
-        throw new Error(`Invalid date format for ${fieldName}: ${value}. Expected DD/MM/YYYY or DD MM YYYY`);
-      }
+  private async recordControl(control: FieldControl, label: string, value: FieldValue): Promise<void> {
+    if (control.kind === 'radio') {
+      await this.recordEntered({ label: control.group || label, kind: 'radios', value: label });
+    } else if (control.kind === 'checkbox') {
+      await this.recordEntered({ label: control.group || label, kind: 'checkboxes', value: [label] });
     } else {
-      throw new Error(`Unsupported date value type for ${fieldName}: ${typeof value}`);
+      await this.recordEntered({ label, kind: control.kind, value });
     }
+  }
 
-    // Try separate fields first (GOV.UK standard dateInput component)
-    try {
-      // For dateInput components, the inputs have IDs like {fieldId}-day, {fieldId}-month, {fieldId}-year
-      // But fieldName might be "Date of birth" while the ID is "date-of-birth"
-      // Try to find inputs by their pattern
-      const dayInput = this.page.locator(`input[id*="-day"]`).first();
-      const monthInput = this.page.locator(`input[id*="-month"]`).first();
-      const yearInput = this.page.locator(`input[id*="-year"]`).first();
-      
-      // Check if elements exist before trying to fill them
-      const dayExists = await dayInput.count() > 0;
-      const monthExists = await monthInput.count() > 0;
-      const yearExists = await yearInput.count() > 0;
-      
-      if (dayExists && monthExists && yearExists) {
-        await dayInput.fill(dateObj.day);
-        await monthInput.fill(dateObj.month);
-        await yearInput.fill(dateObj.year);
-      } else {
-        // If any field is missing, throw error to trigger fallback
-        throw new Error(`Date component fields not found for ${fieldName}`);
-      }
-    } catch (error) {
-      // If separate fields don't exist, try the legacy approach
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.log(`Separate date fields not found for ${fieldName}, trying fallback:`, errorMessage);
-      try {
-        const input = this.page.getByLabel(fieldName, { exact: true });
-        await input.fill(`${dateObj.day}/${dateObj.month}/${dateObj.year}`);
-      } catch (fallbackError) {
-        console.log(`All date filling methods failed for ${fieldName}`);
-        throw fallbackError;
-      }
+  /**
+   * Record an entered value against the current step, replacing any earlier
+   * value for the same field and adding to checkbox lists
+   */
+  private async recordEntered(field: EnteredField): Promise<void> {
+    let step = this.enteredValues.find(entry => entry.step === this.currentStep);
+    if (!step) {
+      const heading = (await this.page.locator('h1').first().textContent().catch(() => null))?.trim() || '';
+      step = { step: this.currentStep, heading, fields: [] };
+      this.enteredValues.push(step);
+    }
+
+    const existing = step.fields.find(entry => entry.label === field.label);
+    if (existing && existing.kind === 'checkboxes' && field.kind === 'checkboxes') {
+      const options = [...existing.value as string[], ...field.value as string[]];
+      existing.value = [...new Set(options)];
+    } else if (existing) {
+      Object.assign(existing, field);
+    } else {
+      step.fields.push(field);
     }
   }
+
+  /**
+   * Timeout for a single step transition
+   * Uses PLAYWRIGHT_TIMEOUT if set, otherwise 15 seconds
+   */
+  private getStepTimeout(): number {
+    return parseInt(process.env.PLAYWRIGHT_TIMEOUT || '15000', 10);
+  }
+
+  /**
+   * Timeout for the submission to be processed
+   * Uses PLAYWRIGHT_TIMEOUT if set, otherwise 2 minutes
+   */
+  private getSubmissionTimeout(): number {
+    return parseInt(process.env.PLAYWRIGHT_TIMEOUT || '120000', 10);
+  }
 }
@@ -2,6 +2,7 @@ import { Page } from '@playwright/test';
 import { JourneyRunner } from './JourneyRunner';
 import { ComponentHelper } from './ComponentHelper';
 import { TestDataFactory } from './TestDataFactory';
+import { JourneyDataStore } from './JourneyDataStore';
 
 /**
  * Journey Step Blocks
@@ -16,10 +17,19 @@ export interface StepBlockContext {
   journeyRunner: JourneyRunner;
   componentHelper: ComponentHelper;
   data?: Record<string, any>;
+  /** Typed view of `data` that records which step produced each value */
+  store?: JourneyDataStore;
 }
 
 export type StepBlock = (context: StepBlockContext) => Promise<void>;
 
+/**
+ * Give a step block the name JourneyBuilder shows for it in test steps and the journey trace
+ */
+export function namedStep(name: string, block: StepBlock): StepBlock {
+  return Object.defineProperty(block, 'name', { value: name });
+}
+
 /**
  * Common Journey Step Blocks
  */
@@ -0,0 +1,225 @@
+import { Page } from '@playwright/test';
+import { JourneyRunner } from './JourneyRunner';
+import { ComponentHelper } from './ComponentHelper';
+import { JourneyBuilder } from './JourneyBuilder';
+import { StepBlock, namedStep } from './JourneyStepBlocks';
+import { FieldValue } from './FieldControl';
+
+/**
+ * Journey Templates
+ * Parameterised journey skeletons - start page, question pages, check answers
+ * and confirmation - registered by journey id and built into a JourneyBuilder
+ * with per-journey overrides for headings and data
+ *
+ * Example usage:
+ * ```typescript
+ * JourneyTemplates.register({
+ *   id: 'register-a-plane',
+ *   startPath: '/civil-aviation-authority/register-a-plane/apply',
+ *   data: () => ({ aircraftData: TestDataFactory.generateAircraftData() }),
+ *   questions: [
+ *     { id: 'applicant-type', heading: 'Who is registering the aircraft?', answers: { 'An individual': 'An individual' } },
+ *     { id: 'aircraft-details', heading: 'Enter aircraft details', answers: ({ aircraftData }) => ({
+ *       'Manufacturer': aircraftData.manufacturer,
+ *       'Model': aircraftData.model
+ *     }) }
+ *   ],
+ *   checkAnswers: { heading: 'Check your answers before submitting' },
+ *   confirmation: { heading: 'Application submitted' }
+ * });
+ *
+ * await JourneyTemplates.build('register-a-plane', page, journeyRunner, componentHelper, {
+ *   headings: { 'aircraft-details': 'Aircraft details' },
+ *   answers: { 'aircraft-details': { 'Model': 'PA-28' } }
+ * }).execute();
+ * ```
+ */
+
+export type TemplateAnswers = Record<string, FieldValue> | ((data: Record<string, any>) => Record<string, FieldValue>);
+
+export interface TemplateQuestion {
+  /** Identifies the page in overrides */
+  id: string;
+  heading: string;
+  /** Answers to give, worked out from the journey's shared data when a function */
+  answers: TemplateAnswers;
+}
+
+export interface JourneyTemplate {
+  id: string;
+  startPath: string;
+  /** Shared data the journey starts with, generated afresh for each build */
+  data?: () => Record<string, any>;
+  questions: TemplateQuestion[];
+  checkAnswers: {
+    heading: string;
+    /** Summary rows to expect, worked out from the journey's shared data */
+    summary?: (data: Record<string, any>) => Record<string, string>;
+  };
+  confirmation: {
+    heading: string;
+  };
+}
+
+export interface JourneyTemplateOverrides {
+  startPath?: string;
+  /** Headings keyed by question id, CHECK_ANSWERS_PAGE or CONFIRMATION_PAGE */
+  headings?: Record<string, string>;
+  /** Answers keyed by question id, merged over the template's */
+  answers?: Record<string, Record<string, FieldValue>>;
+  /** Shared data merged over the template's */
+  data?: Record<string, any>;
+}
+
+export class JourneyTemplates {
+
+  private static registry = new Map<string, JourneyTemplate>();
+
+  /**
+   * Register a template under its journey id
+   */
+  static register(template: JourneyTemplate, options: { replace?: boolean } = {}): void {
+    if (this.registry.has(template.id) && !options.replace) {
+      throw new Error(`Journey template "${template.id}" is already registered`);
+    }
+
+    const questionIds = template.questions.map(question => question.id);
+    const duplicate = questionIds.find((id, index) => questionIds.indexOf(id) !== index);
+    if (duplicate) {
+      throw new Error(`Journey template "${template.id}" has more than one question with id "${duplicate}"`);
+    }
+
+    this.registry.set(template.id, template);
+  }
+
+  /**
+   * Get a registered template by journey id
+   */
+  static get(journeyId: string): JourneyTemplate {
+    const template = this.registry.get(journeyId);
+
+    if (!template) {
+      throw new Error(`Journey template "${journeyId}" is not registered. Available: ${this.ids().join(', ')}`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Check whether a template is registered
+   */
+  static has(journeyId: string): boolean {
+    return this.registry.has(journeyId);
+  }
+
+  /**
+   * Get the ids of every registered template
+   */
+  static ids(): string[] {
+    return [...this.registry.keys()];
+  }
+
+  /**
+   * Build the step blocks for a template: start, every question page, check answers and confirmation
+   */
+  static buildSteps(template: string | JourneyTemplate, overrides: JourneyTemplateOverrides = {}): StepBlock[] {
+    const resolved = typeof template === 'string' ? this.get(template) : template;
+    const heading = (id: string, fallback: string) => overrides.headings?.[id] ?? fallback;
+
+    const unknown = [...Object.keys(overrides.headings || {}), ...Object.keys(overrides.answers || {})]
+      .filter(id => ![...resolved.questions.map(question => question.id), CHECK_ANSWERS_PAGE, CONFIRMATION_PAGE].includes(id));
+    if (unknown.length > 0) {
+      throw new Error(`Journey template "${resolved.id}" has no page(s) ${unknown.map(id => `"${id}"`).join(', ')} to override`);
+    }
+
+    const startPath = overrides.startPath ?? resolved.startPath;
+
+    return [
+      namedStep(`start ${startPath}`, async ({ journeyRunner }) => {
+        await journeyRunner.startJourney(startPath);
+      }),
+
+      ...resolved.questions.map(question => namedStep(question.id, async ({ journeyRunner, data }) => {
+        const answers = typeof question.answers === 'function' ? question.answers(data || {}) : question.answers;
+
+        await journeyRunner.verifyHeading(heading(question.id, question.heading));
+        await journeyRunner.fillStep({ ...answers, ...overrides.answers?.[question.id] });
+        await journeyRunner.continue();
+      })),
+
+      namedStep(CHECK_ANSWERS_PAGE, async ({ journeyRunner, data }) => {
+        await journeyRunner.verifyHeading(heading(CHECK_ANSWERS_PAGE, resolved.checkAnswers.heading));
+
+        const summary = resolved.checkAnswers.summary?.(data || {}) || {};
+        for (const [key, value] of Object.entries(summary)) {
+          await journeyRunner.verifySummaryRow(key, value);
+        }
+
+        await journeyRunner.submit();
+      }),
+
+      namedStep(CONFIRMATION_PAGE, async ({ journeyRunner, componentHelper }) => {
+        const confirmationHeading = heading(CONFIRMATION_PAGE, resolved.confirmation.heading);
+        await journeyRunner.verifyHeading(confirmationHeading);
+        await componentHelper.verifyPanelTitle(confirmationHeading);
+      })
+    ];
+  }
+
+  /**
+   * Build a journey from a registered template, seeded with the template's shared data
+   */
+  static build(
+    template: string | JourneyTemplate,
+    page: Page,
+    journeyRunner: JourneyRunner,
+    componentHelper: ComponentHelper,
+    overrides: JourneyTemplateOverrides = {}
+  ): JourneyBuilder {
+    const resolved = typeof template === 'string' ? this.get(template) : template;
+    const builder = new JourneyBuilder(page, journeyRunner, componentHelper);
+
+    const data = { ...resolved.data?.(), ...overrides.data };
+    for (const [key, value] of Object.entries(data)) {
+      builder.setData(key, value);
+    }
+
+    return builder.addSteps(this.buildSteps(resolved, overrides));
+  }
+
+  /**
+   * Create a multi-page form journey from its question pages
+   *
+   * Check answers and confirmation headings default to the GOV.UK wording -
+   * override them with headings keyed by CHECK_ANSWERS_PAGE and CONFIRMATION_PAGE.
+   */
+  static multiPageForm(
+    page: Page,
+    journeyRunner: JourneyRunner,
+    componentHelper: ComponentHelper,
+    journeyPath: string,
+    questions: TemplateQuestion[] = [],
+    overrides: JourneyTemplateOverrides = {}
+  ): JourneyBuilder {
+    const template: JourneyTemplate = {
+      id: MULTI_PAGE_FORM,
+      startPath: journeyPath,
+      questions,
+      checkAnswers: { heading: 'Check your answers before submitting' },
+      confirmation: { heading: 'Application submitted' }
+    };
+
+    return this.build(template, page, journeyRunner, componentHelper, overrides);
+  }
+}
+
+/**
+ * Page ids for the check answers and confirmation pages in template overrides
+ */
+export const CHECK_ANSWERS_PAGE = 'check-answers';
+export const CONFIRMATION_PAGE = 'confirmation';
+
+/**
+ * Id given to templates built by multiPageForm
+ */
+export const MULTI_PAGE_FORM = 'multi-page-form';
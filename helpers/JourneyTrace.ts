@@ -0,0 +1,102 @@
+import { Page, TestInfo, test } from '@playwright/test';
+import { EnteredField } from './SummaryRows';
+
+/**
+ * Journey Trace
+ * Structured record of a JourneyBuilder run - one entry per step with its
+ * name, the heading it ended on, the data it entered, how long it took and
+ * whether it passed - attached to the Playwright report
+ */
+
+export interface JourneyTraceEntry {
+  index: number;
+  name: string;
+  heading: string;
+  entered: EnteredField[];
+  durationMs: number;
+  attempts: number;
+  outcome: 'passed' | 'failed' | 'soft-failed';
+  error?: string;
+}
+
+const OUTCOME_MARKS: Record<JourneyTraceEntry['outcome'], string> = {
+  'passed': '✓',
+  'failed': '✗',
+  'soft-failed': '~'
+};
+
+export class JourneyTrace {
+
+  /** Attachment name for the trace in the Playwright report */
+  static readonly ATTACHMENT_NAME = 'journey-trace';
+
+  private entries: JourneyTraceEntry[] = [];
+
+  record(entry: JourneyTraceEntry): void {
+    this.entries.push(entry);
+  }
+
+  getEntries(): JourneyTraceEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Attach the trace to the current test, as JSON and as a readable summary
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    await testInfo.attach(JourneyTrace.ATTACHMENT_NAME, {
+      body: JSON.stringify(this.entries, null, 2),
+      contentType: 'application/json'
+    });
+    await testInfo.attach(`${JourneyTrace.ATTACHMENT_NAME}.txt`, {
+      body: this.format(),
+      contentType: 'text/plain'
+    });
+  }
+
+  /**
+   * Format the trace for the console or a text attachment
+   */
+  format(): string {
+    return this.entries.map(entry => {
+      const entered = entry.entered.map(field => `${field.label}=${JSON.stringify(field.value)}`).join(', ');
+      const lines = [
+        `${OUTCOME_MARKS[entry.outcome]} ${entry.index}. ${entry.name} (${entry.durationMs}ms` +
+          `${entry.attempts > 1 ? `, ${entry.attempts} attempts` : ''}) → "${entry.heading}"`,
+        ...(entered ? [`    entered: ${entered}`] : []),
+        ...(entry.error ? [`    error: ${entry.error}`] : [])
+      ];
+      return lines.join('\n');
+    }).join('\n');
+  }
+
+  /**
+   * Attach a full-page screenshot and the DOM of a failed step
+   */
+  static async captureFailure(page: Page, testInfo: TestInfo, stepIndex: number): Promise<void> {
+    if (page.isClosed()) {
+      return;
+    }
+
+    const screenshot = await page.screenshot({ fullPage: true }).catch(() => undefined);
+    if (screenshot) {
+      await testInfo.attach(`step-${stepIndex}-failure.png`, { body: screenshot, contentType: 'image/png' });
+    }
+
+    const dom = await page.content().catch(() => undefined);
+    if (dom) {
+      await testInfo.attach(`step-${stepIndex}-failure.html`, { body: dom, contentType: 'text/html' });
+    }
+  }
+}
+
+/**
+ * The running test's info, or undefined outside a test
+ */
+export function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    return undefined;
+  }
+}
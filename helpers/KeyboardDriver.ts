@@ -0,0 +1,261 @@
+/// <reference lib="dom" />
+import { Locator, Page } from '@playwright/test';
+import { FieldControl, FieldValue, parseDate } from './FieldControl';
+
+/**
+ * Keyboard Driver
+ * Operates a page with Tab, Space, Enter, arrow keys and typing only - no
+ * mouse clicks and no filling of elements that do not have focus
+ *
+ * Every control is reached by tabbing to it, so a control that is not in the
+ * tab order, or cannot be operated once focused, fails with a
+ * KeyboardAccessError naming it.
+ *
+ * Example usage:
+ * ```typescript
+ * journeyRunner.useKeyboardOnly();
+ * await journeyRunner.startJourney('/register-a-plane/apply');
+ * await journeyRunner.selectRadio('An individual');
+ * await journeyRunner.continue();
+ * ```
+ */
+
+export class KeyboardAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyboardAccessError';
+  }
+}
+
+type FocusMatch = 'self' | 'radio-group';
+
+export class KeyboardDriver {
+  constructor(private page: Page) {}
+
+  /**
+   * Tab to an element - or to any element inside it, for a group
+   */
+  async focus(target: Locator, description: string): Promise<void> {
+    await this.tabTo(target, description, 'self');
+  }
+
+  /**
+   * Tab to a button or link and press Enter
+   */
+  async activate(target: Locator, description: string): Promise<void> {
+    await this.focus(target, description);
+    await this.page.keyboard.press('Enter');
+  }
+
+  /**
+   * Select a radio or check a checkbox
+   * A radio group is one tab stop, so the radio is reached with the arrow keys from whichever radio takes focus.
+   */
+  async check(target: Locator, description: string): Promise<void> {
+    const type = await target.evaluate(element => (element as HTMLInputElement).type);
+
+    if (type === 'radio') {
+      await this.tabTo(target, description, 'radio-group');
+
+      const radios = await target.evaluate(element =>
+        document.querySelectorAll(`input[type="radio"][name="${CSS.escape((element as HTMLInputElement).name)}"]`).length);
+      for (let press = 0; press < radios && !await this.isFocused(target, 'self'); press++) {
+        await this.page.keyboard.press('ArrowDown');
+      }
+      if (!await this.isFocused(target, 'self')) {
+        throw new KeyboardAccessError(`${description} could not be reached with the arrow keys from the rest of its group`);
+      }
+    } else {
+      await this.focus(target, description);
+    }
+
+    if (!await target.isChecked()) {
+      await this.page.keyboard.press('Space');
+    }
+    if (!await target.isChecked()) {
+      throw new KeyboardAccessError(`${description} could not be ${type === 'radio' ? 'selected' : 'checked'} with Space`);
+    }
+  }
+
+  /**
+   * Tab to a text input or textarea, clear it and type a value
+   */
+  async type(target: Locator, description: string, text: string): Promise<void> {
+    await this.focus(target, description);
+    await this.page.keyboard.press('ControlOrMeta+A');
+    await this.page.keyboard.press('Backspace');
+    await this.page.keyboard.type(text);
+
+    if (await target.inputValue() !== text) {
+      throw new KeyboardAccessError(`${description} does not hold "${text}" after typing it`);
+    }
+  }
+
+  /**
+   * Fill a resolved control from the keyboard, with a value of the shape FieldFiller.fill takes
+   */
+  async fillControl(control: FieldControl, label: string, value: FieldValue): Promise<void> {
+    const description = `${control.description} labelled "${label}"`;
+
+    switch (control.kind) {
+      case 'text':
+      case 'textarea':
+        await this.type(control.locator, description, typeof value === 'object' && !Array.isArray(value)
+          ? `${value.day}/${value.month}/${value.year}`
+          : this.asText(label, value));
+        return;
+
+      case 'select':
+        await this.choose(control.locator, description, this.asText(label, value));
+        return;
+
+      case 'autocomplete': {
+        const option = this.asText(label, value);
+        await this.type(control.locator, description, option);
+        if (await this.page.getByRole('option', { name: option, exact: true }).first().waitFor({ state: 'visible', timeout: 2000 }).then(() => true, () => false)) {
+          await this.pickSuggestion(description, option);
+        }
+        return;
+      }
+
+      case 'file': {
+        await this.focus(control.locator, description);
+        const [chooser] = await Promise.all([
+          this.page.waitForEvent('filechooser', { timeout: 2000 }),
+          this.page.keyboard.press('Space')
+        ]).catch(() => {
+          throw new KeyboardAccessError(`${description} did not open a file chooser when Space was pressed`);
+        });
+        await chooser.setFiles(Array.isArray(value) ? value : this.asText(label, value));
+        return;
+      }
+
+      case 'radio':
+      case 'checkbox':
+        await this.check(control.locator, description);
+        return;
+
+      case 'radios': {
+        const option = this.asText(label, value);
+        await this.check(control.locator.getByRole('radio', { name: option, exact: true }), `"${option}" radio in ${description}`);
+        return;
+      }
+
+      case 'checkboxes':
+        for (const option of Array.isArray(value) ? value : [this.asText(label, value)]) {
+          await this.check(control.locator.getByRole('checkbox', { name: option, exact: true }), `"${option}" checkbox in ${description}`);
+        }
+        return;
+
+      case 'date': {
+        const date = parseDate(label, value);
+        for (const part of ['Day', 'Month', 'Year'] as const) {
+          await this.type(control.locator.getByLabel(part, { exact: true }), `${part} of ${description}`, date[part.toLowerCase() as 'day' | 'month' | 'year']);
+        }
+        return;
+      }
+
+      default:
+        throw new Error(`Don't know how to fill ${control.description} labelled "${label}"`);
+    }
+  }
+
+  /**
+   * Tab to a select and move through its options with the arrow keys until the one wanted is selected
+   */
+  private async choose(select: Locator, description: string, option: string): Promise<void> {
+    await this.focus(select, description);
+
+    const selected = () => select.evaluate((element, wanted) => {
+      const chosen = (element as HTMLSelectElement).selectedOptions[0];
+      return chosen !== undefined && (chosen.textContent?.trim() === wanted || chosen.value === wanted);
+    }, option);
+
+    const options = await select.locator('option').count();
+    await this.page.keyboard.press('Home');
+    for (let press = 0; press < options && !await selected(); press++) {
+      await this.page.keyboard.press('ArrowDown');
+    }
+
+    if (!await selected()) {
+      throw new KeyboardAccessError(`"${option}" could not be chosen in ${description} with the arrow keys`);
+    }
+  }
+
+  /**
+   * Arrow down through an autocomplete's suggestions until the one wanted is highlighted, then pick it
+   */
+  private async pickSuggestion(description: string, option: string): Promise<void> {
+    // Suggestions are highlighted by moving focus to them or through aria-activedescendant / aria-selected
+    const highlighted = () => this.page.evaluate(() => {
+      const active = document.activeElement;
+      const descendant = active?.getAttribute('aria-activedescendant');
+      const current = (descendant ? document.getElementById(descendant) : null)
+        || (active?.getAttribute('role') === 'option' ? active : null)
+        || document.querySelector('[role="option"][aria-selected="true"]');
+      return current?.textContent?.trim() ?? null;
+    });
+
+    const suggestions = await this.page.getByRole('option').count();
+    for (let press = 0; press < suggestions; press++) {
+      await this.page.keyboard.press('ArrowDown');
+      if (await highlighted() === option) {
+        await this.page.keyboard.press('Enter');
+        return;
+      }
+    }
+
+    throw new KeyboardAccessError(`"${option}" could not be highlighted among the suggestions for ${description} with the arrow keys`);
+  }
+
+  /**
+   * Press Tab until the target has focus, giving up after one full cycle of the page's tab stops
+   */
+  private async tabTo(target: Locator, description: string, match: FocusMatch): Promise<void> {
+    await target.waitFor({ state: 'visible' }).catch(() => {
+      throw new KeyboardAccessError(`${description} is not visible, so cannot be reached from the keyboard`);
+    });
+
+    if (await this.isFocused(target, match)) {
+      return;
+    }
+
+    // One more than the focusable elements covers the wrap from the end of the page back to the start
+    const limit = await this.page.evaluate(() => document.querySelectorAll(
+      'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex]'
+    ).length) + 2;
+
+    for (let press = 0; press < limit; press++) {
+      await this.page.keyboard.press('Tab');
+      if (await this.isFocused(target, match)) {
+        return;
+      }
+    }
+
+    const focused = await this.page.evaluate(() => {
+      const element = document.activeElement;
+      return element ? `<${element.tagName.toLowerCase()}${element.id ? ` #${element.id}` : ''}>` : 'nothing';
+    });
+    throw new KeyboardAccessError(`${description} could not be reached with Tab after ${limit} presses (focus ended on ${focused})`);
+  }
+
+  private async isFocused(target: Locator, match: FocusMatch): Promise<boolean> {
+    return target.evaluate((element, radioGroup) => {
+      const active = document.activeElement;
+      if (!active) {
+        return false;
+      }
+      if (radioGroup) {
+        return active instanceof HTMLInputElement && active.type === 'radio' && active.name === (element as HTMLInputElement).name;
+      }
+      return element === active || element.contains(active);
+    }, match === 'radio-group');
+  }
+
+  private asText(label: string, value: FieldValue): string {
+    if (typeof value !== 'string') {
+      throw new Error(`Field "${label}" takes a single text value, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,258 @@
+/// <reference lib="dom" />
+import { Page } from '@playwright/test';
+import { JourneyBuilder } from './JourneyBuilder';
+import { StepBlock, namedStep } from './JourneyStepBlocks';
+import { FieldFiller } from './FieldFiller';
+import { DataDrivenJourney, FieldValueGenerator } from './DataDrivenJourney';
+import { JourneyGraph, JourneyRoute } from './JourneyGraph';
+import {
+  JourneyDefinition,
+  JourneyFieldDefinition,
+  JourneyStepDefinition
+} from '../tests/shared/validation/schemas';
+
+/**
+ * Negative Paths
+ * Generates the error cases for every question page of a data-driven journey:
+ * each page is submitted empty, then once per invalid input for each field,
+ * and the errors shown are checked against the GOV.UK conventions -
+ * - the page title starts with "Error: " (unless checkTitle is false)
+ * - every error summary link moves focus to its field
+ * - every summary message matches the inline error next to its field, and
+ *   every inline error is in the summary
+ *
+ * Example usage:
+ * ```typescript
+ * const builder = new JourneyBuilder(page, journeyRunner, componentHelper);
+ * await NegativePaths.addTo(builder, DataDrivenJourney.load('register-a-plane')).execute();
+ * ```
+ */
+
+export type JourneyFieldType = JourneyFieldDefinition['type'];
+
+export interface NegativePathOptions {
+  /** Route to walk, defaults to the journey's first route */
+  route?: JourneyRoute;
+  /** Invalid inputs to try per field type, merged over DEFAULT_INVALID_INPUTS */
+  invalidInputs?: Partial<Record<JourneyFieldType, string[]>>;
+  /** Invalid inputs to try for particular fields, keyed by field name */
+  fieldInputs?: Record<string, string[]>;
+  /** Names of fields that may be left empty - a page whose fields all are is not submitted empty */
+  optionalFields?: string[];
+  /** Check the page title starts with "Error: ", defaults to true - turn off for apps without a <title> */
+  checkTitle?: boolean;
+}
+
+export interface ErrorSummaryEntry {
+  text: string;
+  href: string;
+  /** Whether the link's target is on the page */
+  targetFound: boolean;
+  /** Inline error in the target's form group, if any */
+  inline?: string;
+}
+
+export interface ErrorReport {
+  title: string;
+  summary: ErrorSummaryEntry[];
+  inline: string[];
+}
+
+/**
+ * Default invalid inputs per field type - types with none are only submitted empty
+ */
+export const DEFAULT_INVALID_INPUTS: Record<JourneyFieldType, string[]> = {
+  text: [],
+  textarea: [],
+  email: ['not-an-email'],
+  tel: ['not a phone number'],
+  date: ['31/02/2020', '01/13/2020'],
+  radios: [],
+  checkboxes: []
+};
+
+export class NegativePaths {
+
+  /**
+   * Add a journey's steps to a builder, probing each question page's errors before answering it
+   * Probes are soft steps, so one run reports every page that breaks the conventions.
+   */
+  static addTo(builder: JourneyBuilder, definition: JourneyDefinition, options: NegativePathOptions = {}): JourneyBuilder {
+    const route = options.route ?? JourneyGraph.fromDefinition(definition).enumerateRoutes()[0];
+    const [start, ...pageSteps] = DataDrivenJourney.buildRouteSteps(definition, route);
+
+    builder.addStep(start);
+    route.pages.forEach((pageName, index) => {
+      const step = definition.steps.find(candidate => candidate.name === pageName);
+      if (step?.fields?.length) {
+        builder.addSoftStep(this.probePage(step, options));
+      }
+      builder.addStep(pageSteps[index]);
+    });
+
+    return builder;
+  }
+
+  /**
+   * Build a block that submits a question page empty and with each invalid input,
+   * leaving it on the same page
+   */
+  static probePage(step: JourneyStepDefinition, options: NegativePathOptions = {}): StepBlock {
+    return namedStep(`errors: ${step.name}`, async ({ page, journeyRunner }) => {
+      const fields = step.fields || [];
+      const filler = new FieldFiller(page);
+      const generator = new FieldValueGenerator();
+      const problems: string[] = [];
+
+      await journeyRunner.verifyHeading(step.heading);
+
+      const required = fields.filter(field => !options.optionalFields?.includes(field.name));
+      if (required.length > 0) {
+        await journeyRunner.continue();
+        problems.push(...await this.checkSubmission(page, step, 'empty', required, options));
+      }
+
+      for (const field of fields) {
+        for (const input of this.invalidInputsFor(field, options)) {
+          for (const other of fields) {
+            await this.fillField(filler, other, other === field ? input : generator.valueFor(other));
+          }
+
+          await journeyRunner.continue();
+          problems.push(...await this.checkSubmission(page, step, `${field.name} = ${JSON.stringify(input)}`, [field], options));
+        }
+      }
+
+      if (problems.length > 0) {
+        throw new Error(`Errors on "${step.heading}" break GOV.UK conventions:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+      }
+    });
+  }
+
+  /**
+   * Read the page title, error summary and inline errors
+   */
+  static async captureErrors(page: Page): Promise<ErrorReport> {
+    return page.evaluate(() => {
+      const clean = (text: string | null) => (text || '').replace(/^\s*Error:\s*/i, '').replace(/\s+/g, ' ').trim();
+
+      const summary = Array.from(document.querySelectorAll('.govuk-error-summary a')).map(link => {
+        const href = link.getAttribute('href') || '';
+        const target = href.startsWith('#') ? document.getElementById(decodeURIComponent(href.slice(1))) : null;
+        const inline = target?.closest('.govuk-form-group')?.querySelector('.govuk-error-message');
+        return {
+          text: clean(link.textContent),
+          href,
+          targetFound: target !== null,
+          inline: inline ? clean(inline.textContent) : undefined
+        };
+      });
+
+      const inline = Array.from(document.querySelectorAll('.govuk-error-message')).map(element => clean(element.textContent));
+
+      return { title: document.title, summary, inline };
+    });
+  }
+
+  /**
+   * Check the errors on the page follow the GOV.UK conventions, returning each problem found
+   */
+  static async checkConventions(
+    page: Page,
+    report: ErrorReport,
+    options: Pick<NegativePathOptions, 'checkTitle'> = {}
+  ): Promise<string[]> {
+    const problems: string[] = [];
+
+    if (report.summary.length === 0) {
+      return ['no error summary shown'];
+    }
+
+    if (options.checkTitle !== false && !report.title.startsWith('Error: ')) {
+      problems.push(`page title "${report.title}" does not start with "Error: "`);
+    }
+
+    for (const [index, entry] of report.summary.entries()) {
+      if (!entry.targetFound) {
+        problems.push(`summary link "${entry.text}" points to ${entry.href}, which is not on the page`);
+        continue;
+      }
+
+      if (entry.inline === undefined) {
+        problems.push(`"${entry.text}" has no inline error next to its field`);
+      } else if (entry.inline !== entry.text) {
+        problems.push(`summary says "${entry.text}" but the inline error says "${entry.inline}"`);
+      }
+
+      await page.locator('.govuk-error-summary a').nth(index).click();
+      const focused = await page.evaluate((href) => {
+        const target = document.getElementById(decodeURIComponent(href.slice(1)));
+        return target !== null && document.activeElement !== null && target.contains(document.activeElement);
+      }, entry.href);
+      if (!focused) {
+        problems.push(`summary link "${entry.text}" does not move focus to ${entry.href}`);
+      }
+    }
+
+    for (const message of report.inline) {
+      if (!report.summary.some(entry => entry.text === message)) {
+        problems.push(`inline error "${message}" is missing from the error summary`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Check a submission stayed on the page and showed conventional errors for the given fields
+   */
+  private static async checkSubmission(
+    page: Page,
+    step: JourneyStepDefinition,
+    submission: string,
+    expectErrorsFor: JourneyFieldDefinition[],
+    options: NegativePathOptions
+  ): Promise<string[]> {
+    const heading = (await page.locator('h1').first().textContent())?.trim() || '';
+    if (heading !== step.heading) {
+      throw new Error(`Submitting "${step.heading}" (${submission}) moved on to "${heading}" instead of showing errors`);
+    }
+
+    const problems = await this.checkConventions(page, await this.captureErrors(page), options);
+
+    for (const field of expectErrorsFor) {
+      if (!await this.hasInlineError(page, field)) {
+        problems.push(`no error shown for ${field.name}`);
+      }
+    }
+
+    return problems.map(problem => `${submission}: ${problem}`);
+  }
+
+  private static async hasInlineError(page: Page, field: JourneyFieldDefinition): Promise<boolean> {
+    const control = await new FieldFiller(page).resolve(this.labelOf(field));
+    return control.locator.first().evaluate(element =>
+      element.closest('.govuk-form-group')?.querySelector('.govuk-error-message') != null
+    );
+  }
+
+  private static async fillField(filler: FieldFiller, field: JourneyFieldDefinition, value: string | string[]): Promise<void> {
+    if (field.type === 'radios' || field.type === 'checkboxes') {
+      for (const option of Array.isArray(value) ? value : [value]) {
+        await filler.fill(option, option);
+      }
+      return;
+    }
+    await filler.fill(this.labelOf(field), value);
+  }
+
+  private static labelOf(field: JourneyFieldDefinition): string {
+    return field.label || field.options?.[0] || field.name;
+  }
+
+  private static invalidInputsFor(field: JourneyFieldDefinition, options: NegativePathOptions): string[] {
+    return options.fieldInputs?.[field.name]
+      ?? options.invalidInputs?.[field.type]
+      ?? DEFAULT_INVALID_INPUTS[field.type];
+  }
+}
@@ -11,6 +11,7 @@ export interface JourneyPatterns {
   summaryList: 'govuk-summary-list' | 'dl' | 'table' | 'none';
   changeAnswers: boolean;
   backNavigation: 'button' | 'link' | 'both' | 'none';
+  addAnother: 'radios' | 'button' | 'none';
   smartQuotes: boolean;
 }
 
@@ -26,6 +27,7 @@ export class PatternDetector {
       summaryList: await this.detectSummaryListPattern(),
       changeAnswers: await this.detectChangeAnswerSupport(),
       backNavigation: await this.detectBackNavigationPattern(),
+      addAnother: await this.detectAddAnotherPattern(),
       smartQuotes: await this.detectSmartQuotes()
     };
   }
@@ -80,6 +82,28 @@ export class PatternDetector {
     return 'none';
   }
 
+  /**
+   * Detect how an add-another page asks whether to add another item
+   * Either a Yes/No question ("Do you need to add another address?") or an "Add another" button
+   */
+  async detectAddAnotherPattern(): Promise<'radios' | 'button' | 'none'> {
+    const hasQuestion = await this.page.getByRole('group', { name: /add another/i }).isVisible().catch(() => false);
+    if (hasQuestion) return 'radios';
+
+    const hasButton = await this.page.getByRole('button', { name: /add another/i }).isVisible().catch(() => false);
+    if (hasButton) return 'button';
+
+    return 'none';
+  }
+
+  /**
+   * Get the items listed on an add-another page, in order
+   */
+  async getAddedItems(): Promise<string[]> {
+    const keys = await this.page.locator('.govuk-summary-list__row .govuk-summary-list__key').allTextContents();
+    return keys.map(key => key.trim()).filter(key => key.length > 0);
+  }
+
   /**
    * Detect if page uses smart quotes
    */
@@ -0,0 +1,195 @@
+/// <reference lib="dom" />
+import * as fs from 'fs';
+import { Browser, BrowserContext, BrowserContextOptions, Page } from '@playwright/test';
+import { JourneyRunner } from './JourneyRunner';
+import { FieldFiller } from './FieldFiller';
+import { FieldValue } from './FieldControl';
+import { BrowserState, JourneyCheckpoints } from './JourneyCheckpoints';
+
+/**
+ * Save and Return
+ * Stops a journey part way, persists the browser state it depends on and
+ * resumes it in a fresh browser context, then checks every earlier answer
+ * was restored
+ *
+ * Example usage:
+ * ```typescript
+ * const saveAndReturn = new SaveAndReturn(page, journeyRunner);
+ * await journeyRunner.startJourney('/register-a-plane/apply');
+ * await saveAndReturn.answerPage({ 'An individual': 'An individual' });
+ * await saveAndReturn.answerPage({ 'Manufacturer': 'Cessna', 'Model': '172' });
+ *
+ * const saved = await saveAndReturn.save(testInfo.outputPath(SaveAndReturn.FILE_NAME));
+ * await page.context().close();
+ *
+ * const resumed = await SaveAndReturn.resume(browser, SaveAndReturn.load(path), { baseURL });
+ * await SaveAndReturn.verifyRestored(resumed, saved);
+ * ```
+ *
+ * Journeys are client-side routed, so every page shares one URL: earlier
+ * pages are revisited through the Back link, never by URL.
+ */
+
+export interface SavedPage {
+  heading: string;
+  fields: Record<string, FieldValue>;
+}
+
+export interface SavedJourney extends BrowserState {
+  /** URL and heading of the page the journey stopped on */
+  url: string;
+  heading: string;
+  journeyPath: string;
+  /** Answers given on each page before stopping */
+  pages: SavedPage[];
+}
+
+export interface ResumedJourney {
+  context: BrowserContext;
+  page: Page;
+  journeyRunner: JourneyRunner;
+}
+
+export class SaveAndReturn {
+
+  /** File name for a saved journey in a test's output directory */
+  static readonly FILE_NAME = 'saved-journey.json';
+
+  private pages: SavedPage[] = [];
+
+  constructor(
+    private page: Page,
+    private journeyRunner: JourneyRunner
+  ) {}
+
+  /**
+   * Fill the current page, remember its answers and continue
+   */
+  async answerPage(fields: Record<string, FieldValue>): Promise<void> {
+    const heading = await this.currentHeading();
+
+    await this.journeyRunner.fillStep(fields);
+    await this.journeyRunner.continue();
+
+    this.pages.push({ heading, fields });
+  }
+
+  /**
+   * Get the answers given so far
+   */
+  getAnswers(): SavedPage[] {
+    return [...this.pages];
+  }
+
+  /**
+   * Stop the journey and capture its cookies, localStorage and sessionStorage
+   * Uses the journey's "Save and come back later" control when it has one.
+   * Writes the saved journey to `filePath` when given.
+   */
+  async save(filePath?: string): Promise<SavedJourney> {
+    const saveControl = this.page.getByRole('button', { name: /save and come back later/i })
+      .or(this.page.getByRole('link', { name: /save and come back later/i }));
+
+    const url = this.page.url();
+    const heading = await this.currentHeading();
+    if (await saveControl.first().isVisible().catch(() => false)) {
+      await this.journeyRunner.waitForStepChange(async () => {
+        await this.journeyRunner.activate(saveControl.first(), 'Save and come back later control');
+      });
+    }
+
+    const saved: SavedJourney = {
+      url,
+      heading,
+      journeyPath: this.journeyRunner.getJourneyPath(),
+      ...await JourneyCheckpoints.captureBrowserState(this.page),
+      pages: this.getAnswers()
+    };
+
+    if (filePath) {
+      fs.writeFileSync(filePath, JSON.stringify(saved, null, 2));
+    }
+
+    return saved;
+  }
+
+  /**
+   * Read a saved journey written by `save`
+   */
+  static load(filePath: string): SavedJourney {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  /**
+   * Open a fresh browser context with the saved state, reopen the journey and
+   * check the app resumed it on the page it stopped on
+   */
+  static async resume(browser: Browser, saved: SavedJourney, options: BrowserContextOptions = {}): Promise<ResumedJourney> {
+    const context = await browser.newContext({ ...options, storageState: saved.storageState });
+
+    // sessionStorage is per tab, so it is restored before the app's own scripts run
+    await context.addInitScript(({ origin, entries }) => {
+      if (location.origin === origin) {
+        for (const [key, value] of Object.entries(entries)) {
+          sessionStorage.setItem(key, value);
+        }
+      }
+    }, { origin: new URL(saved.url).origin, entries: saved.sessionStorage });
+
+    const page = await context.newPage();
+    const journeyRunner = new JourneyRunner(page, options.baseURL);
+    await journeyRunner.startJourney(saved.journeyPath);
+    await this.expectHeading(page, saved.heading, 'The journey did not resume where it stopped');
+
+    return { context, page, journeyRunner };
+  }
+
+  /**
+   * Verify every saved answer is restored on its page
+   * Goes back one page at a time from where the journey stopped to the first
+   * answered page, then continues forward again through the restored answers.
+   */
+  static async verifyRestored(resumed: ResumedJourney, saved: SavedJourney): Promise<void> {
+    const { page, journeyRunner } = resumed;
+    const filler = new FieldFiller(page);
+
+    for (const savedPage of [...saved.pages].reverse()) {
+      await journeyRunner.goBack();
+      await this.expectHeading(page, savedPage.heading, 'Back did not return to an answered page');
+
+      for (const [label, value] of Object.entries(savedPage.fields)) {
+        try {
+          await filler.verify(label, value);
+        } catch (error) {
+          throw new Error(`Answer not restored on "${savedPage.heading}": ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    for (let step = 0; step < saved.pages.length; step++) {
+      await journeyRunner.continue();
+    }
+    await this.expectHeading(page, saved.heading, 'Continuing through the restored answers did not return to where the journey stopped');
+  }
+
+  /**
+   * Verify the check-answers summary still shows the saved answers
+   */
+  static async verifyCheckAnswers(journeyRunner: JourneyRunner, summary: Record<string, string>): Promise<void> {
+    for (const [key, value] of Object.entries(summary)) {
+      await journeyRunner.verifySummaryRow(key, value);
+    }
+  }
+
+  private static async expectHeading(page: Page, heading: string, failure: string): Promise<void> {
+    const shown = page.getByRole('heading', { level: 1, name: heading, exact: true });
+    if (!await shown.first().waitFor().then(() => true, () => false)) {
+      const actual = (await page.locator('h1').first().textContent().catch(() => null))?.trim() || 'no heading';
+      throw new Error(`${failure}: expected "${heading}" but the page shows "${actual}"`);
+    }
+  }
+
+  private async currentHeading(): Promise<string> {
+    return (await this.page.locator('h1').first().textContent())?.trim() || '';
+  }
+}
@@ -0,0 +1,179 @@
+/// <reference lib="dom" />
+import { Page } from '@playwright/test';
+
+/**
+ * Step Change Detector
+ * Detects journey step transitions in client-side routed apps without fixed sleeps
+ *
+ * A small script in the page counts history navigations (pushState,
+ * replaceState, popstate), pending fetch/XHR requests and DOM mutations.
+ * A step has changed when the h1, URL or history changes, or when the page
+ * responds with validation errors instead; it has settled once no requests
+ * are pending and the DOM has been quiet for a short period.
+ */
+
+export interface StepState {
+  heading: string;
+  url: string;
+  navigations: number;
+  requests: number;
+  mutations: number;
+  hasErrors: boolean;
+}
+
+export interface StepChange {
+  changed: boolean;
+  fromHeading: string;
+  toHeading: string;
+  hasErrors: boolean;
+}
+
+interface StepTracking {
+  navigations: number;
+  requests: number;
+  pendingRequests: number;
+  mutations: number;
+  lastMutation: number;
+}
+
+declare global {
+  interface Window {
+    __journeyStepTracking?: StepTracking;
+  }
+}
+
+const ERROR_SELECTOR = '.govuk-error-summary, .govuk-error-message';
+
+/**
+ * Runs in the page - installs the tracking once per document
+ */
+function installStepTracking(): void {
+  if (window.__journeyStepTracking) {
+    return;
+  }
+
+  const tracking: StepTracking = {
+    navigations: 0,
+    requests: 0,
+    pendingRequests: 0,
+    mutations: 0,
+    lastMutation: performance.now()
+  };
+  window.__journeyStepTracking = tracking;
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      tracking.navigations++;
+      return original.apply(this, args);
+    };
+  }
+  window.addEventListener('popstate', () => tracking.navigations++);
+
+  const originalFetch = window.fetch;
+  window.fetch = function (this: unknown, ...args: Parameters<typeof fetch>) {
+    tracking.requests++;
+    tracking.pendingRequests++;
+    return originalFetch.apply(this, args).finally(() => tracking.pendingRequests--);
+  };
+
+  const originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['send']>) {
+    tracking.requests++;
+    tracking.pendingRequests++;
+    this.addEventListener('loadend', () => tracking.pendingRequests--, { once: true });
+    return originalSend.apply(this, args);
+  };
+
+  new MutationObserver(() => {
+    tracking.mutations++;
+    tracking.lastMutation = performance.now();
+  }).observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+}
+
+export class StepChangeDetector {
+  private initScriptAdded = false;
+
+  constructor(
+    private page: Page,
+    private quietPeriod: number = 100
+  ) {}
+
+  /**
+   * Make sure tracking is installed in the current document and in every
+   * document the page loads from now on
+   */
+  async install(): Promise<void> {
+    if (!this.initScriptAdded) {
+      await this.page.addInitScript(installStepTracking);
+      this.initScriptAdded = true;
+    }
+    await this.page.evaluate(installStepTracking).catch(() => {
+      // Page not loaded yet - the init script covers the first document
+    });
+  }
+
+  /**
+   * Capture the current step so a later change can be detected
+   */
+  async capture(): Promise<StepState> {
+    await this.install();
+
+    return await this.page.evaluate((errorSelector) => {
+      const tracking = window.__journeyStepTracking!;
+      return {
+        heading: document.querySelector('h1')?.textContent?.trim() || '',
+        url: location.href,
+        navigations: tracking.navigations,
+        requests: tracking.requests,
+        mutations: tracking.mutations,
+        hasErrors: document.querySelector(errorSelector) !== null
+      };
+    }, ERROR_SELECTOR);
+  }
+
+  /**
+   * Wait until the page has moved on from the captured step (or shown
+   * validation errors), then until it has settled
+   */
+  async waitForChange(before: StepState, timeout: number): Promise<StepChange> {
+    await this.page.waitForFunction(({ before, errorSelector }) => {
+      // A full page load replaces the document and its tracking
+      const tracking = window.__journeyStepTracking;
+      if (!tracking) return false;
+
+      const heading = document.querySelector('h1')?.textContent?.trim() || '';
+      const hasErrors = document.querySelector(errorSelector) !== null;
+      const responded = tracking.requests > before.requests || tracking.mutations > before.mutations;
+
+      return heading !== before.heading
+        || location.href !== before.url
+        || tracking.navigations !== before.navigations
+        || (hasErrors && (!before.hasErrors || responded));
+    }, { before, errorSelector: ERROR_SELECTOR }, { timeout });
+
+    await this.waitForSettled(timeout);
+
+    const after = await this.capture();
+    return {
+      changed: after.heading !== before.heading || after.url !== before.url || after.navigations !== before.navigations,
+      fromHeading: before.heading,
+      toHeading: after.heading,
+      hasErrors: after.hasErrors
+    };
+  }
+
+  /**
+   * Wait until no requests are pending and the DOM has been quiet for the quiet period
+   */
+  async waitForSettled(timeout: number): Promise<void> {
+    await this.install();
+
+    await this.page.waitForFunction((quietPeriod) => {
+      const tracking = window.__journeyStepTracking;
+      return !!tracking
+        && tracking.pendingRequests === 0
+        && performance.now() - tracking.lastMutation >= quietPeriod;
+    }, this.quietPeriod, { timeout });
+  }
+}
@@ -0,0 +1,128 @@
+import { Page, Response } from '@playwright/test';
+import { SubmissionTolerance } from '../config/environments';
+import { PatternDetector } from './PatternDetector';
+
+/**
+ * Submission Outcome
+ * Classifies what happened after a journey was submitted from Check Your Answers
+ */
+
+export interface SubmissionResponse {
+  url: string;
+  method: string;
+  status: number;
+  body?: unknown;
+}
+
+export type SubmissionOutcome =
+  | { status: 'confirmed'; heading: string; referenceNumber?: string; response?: SubmissionResponse }
+  | { status: 'validation-rejected'; heading: string; errors: string[]; response?: SubmissionResponse }
+  | { status: 'server-error'; heading: string; message: string; response?: SubmissionResponse }
+  | { status: 'unknown'; heading: string; response?: SubmissionResponse };
+
+export type SubmissionStatus = SubmissionOutcome['status'];
+
+const CONFIRMATION_HEADING = /Application submitted|Confirmation|Thank you/i;
+const REFERENCE_NUMBER = /APP-[A-Z0-9]+-[A-Z0-9]+/;
+const SERVER_ERROR_TEXT = ['Journey not found', 'Sorry, there is a problem with the service'];
+
+export class SubmissionOutcomeDetector {
+  constructor(private page: Page) {}
+
+  /**
+   * Classify the current page and the captured submission response
+   */
+  async detect(response?: SubmissionResponse): Promise<SubmissionOutcome> {
+    if (this.page.isClosed()) {
+      return { status: 'unknown', heading: '', response };
+    }
+
+    const heading = (await this.page.locator('h1').first().textContent().catch(() => null))?.trim() || '';
+
+    const panelTitle = this.page.locator('.govuk-panel__title');
+    if (await panelTitle.isVisible().catch(() => false) || CONFIRMATION_HEADING.test(heading)) {
+      return { status: 'confirmed', heading, referenceNumber: await this.getReferenceNumber(), response };
+    }
+
+    const errors = await new PatternDetector(this.page).getErrorMessages();
+    if (errors.length > 0 || (response && [400, 422].includes(response.status))) {
+      return { status: 'validation-rejected', heading, errors, response };
+    }
+
+    const serverErrorText = await this.findServerErrorText();
+    if (serverErrorText || (response && response.status >= 500)) {
+      const message = serverErrorText || `Submission returned HTTP ${response!.status}`;
+      return { status: 'server-error', heading, message, response };
+    }
+
+    return { status: 'unknown', heading, response };
+  }
+
+  /**
+   * Find a server error message shown on the page, if any
+   */
+  async findServerErrorText(): Promise<string | undefined> {
+    for (const text of SERVER_ERROR_TEXT) {
+      if (await this.page.getByText(text).first().isVisible().catch(() => false)) {
+        return text;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the parts of a response worth keeping for diagnosis
+   */
+  static async captureResponse(response: Response): Promise<SubmissionResponse> {
+    const captured: SubmissionResponse = {
+      url: response.url(),
+      method: response.request().method(),
+      status: response.status()
+    };
+
+    const text = await response.text().catch(() => undefined);
+    if (text !== undefined) {
+      try {
+        captured.body = JSON.parse(text);
+      } catch {
+        captured.body = text.length > 2000 ? `${text.slice(0, 2000)}…` : text;
+      }
+    }
+
+    return captured;
+  }
+
+  /**
+   * Find the environment tolerance that accepts an outcome, if any
+   */
+  static findTolerance(outcome: SubmissionOutcome, tolerances: SubmissionTolerance[]): SubmissionTolerance | undefined {
+    return tolerances.find(tolerance => {
+      if (tolerance.status !== outcome.status) {
+        return false;
+      }
+      if (!tolerance.messageIncludes) {
+        return true;
+      }
+      return outcome.status === 'server-error' && outcome.message.includes(tolerance.messageIncludes);
+    });
+  }
+
+  /**
+   * Describe an outcome for error messages and logs
+   */
+  static describe(outcome: SubmissionOutcome): string {
+    const parts = [`status: ${outcome.status}`, `heading: "${outcome.heading}"`];
+
+    if (outcome.status === 'validation-rejected') parts.push(`errors: ${outcome.errors.join('; ') || 'none shown'}`);
+    if (outcome.status === 'server-error') parts.push(`message: ${outcome.message}`);
+    if (outcome.status === 'confirmed' && outcome.referenceNumber) parts.push(`reference: ${outcome.referenceNumber}`);
+    if (outcome.response) parts.push(`response: ${outcome.response.method} ${outcome.response.url} -> ${outcome.response.status}`);
+
+    return parts.join(', ');
+  }
+
+  private async getReferenceNumber(): Promise<string | undefined> {
+    const body = await this.page.locator('.govuk-panel__body').first().textContent().catch(() => null);
+    return body?.match(REFERENCE_NUMBER)?.[0];
+  }
+}
@@ -0,0 +1,190 @@
+import { FieldKind, FieldValue, parseDate } from './FieldControl';
+
+/**
+ * Summary Rows
+ * Derives the check-answers rows a journey should show from the values
+ * JourneyRunner entered, and diffs them against the rows actually shown
+ *
+ * Example usage:
+ * ```typescript
+ * const expected = SummaryRows.derive(journeyRunner.getEnteredValues(), {
+ *   keys: { 'Full name': 'Name' },
+ *   formatters: { date: date => `${date.day}/${date.month}/${date.year}` }
+ * });
+ * const diff = SummaryRows.diff(expected, await new PatternDetector(page).getSummaryData());
+ * ```
+ */
+
+export interface EnteredField {
+  /** Field label, or the question (legend) for radios and checkboxes */
+  label: string;
+  kind: FieldKind;
+  value: FieldValue;
+}
+
+export interface EnteredStep {
+  step: number;
+  heading: string;
+  fields: EnteredField[];
+}
+
+export interface SummaryFormatters {
+  text: (value: string) => string;
+  date: (value: { day: string; month: string; year: string }) => string;
+  radios: (value: string) => string;
+  checkboxes: (values: string[]) => string;
+  address: (lines: string[]) => string;
+}
+
+export interface SummaryDerivationOptions {
+  /** Summary row keys to use instead of field labels */
+  keys?: Record<string, string>;
+  /** Field labels that do not appear on check answers */
+  exclude?: string[];
+  /** Steps, by heading, whose fields make up one address row - mapped to that row's key */
+  addresses?: Record<string, string>;
+  formatters?: Partial<SummaryFormatters>;
+}
+
+export interface SummaryDiff {
+  missing: string[];
+  /** Rows entered under a label the summary does not use, found by their value instead */
+  matchedByValue: Array<{ key: string; shownAs: string }>;
+  /** Rows entered under a label the summary does not use that cannot safely be matched by value */
+  ambiguous: Array<{ key: string; candidates: string[] }>;
+  mismatched: Array<{ key: string; expected: string; actual: string }>;
+  unexpected: string[];
+}
+
+export const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Default formatters - GOV.UK style, e.g. dates as "1 January 2000" and list items on separate lines
+ */
+export const DEFAULT_SUMMARY_FORMATTERS: SummaryFormatters = {
+  text: value => value,
+  date: value => `${Number(value.day)} ${MONTHS[Number(value.month) - 1] ?? value.month} ${value.year}`,
+  radios: value => value,
+  checkboxes: values => values.join('\n'),
+  address: lines => lines.join('\n')
+};
+
+export class SummaryRows {
+
+  /**
+   * Derive the expected check-answers rows from the values entered on each step
+   * Empty values are left out, as optional questions are often not shown
+   */
+  static derive(steps: EnteredStep[], options: SummaryDerivationOptions = {}): Record<string, string> {
+    const formatters = { ...DEFAULT_SUMMARY_FORMATTERS, ...options.formatters };
+    const rows: Record<string, string> = {};
+
+    for (const step of steps) {
+      const fields = step.fields.filter(field => !options.exclude?.includes(field.label));
+      const addressKey = options.addresses?.[step.heading];
+
+      if (addressKey) {
+        const lines = fields.map(field => this.asText(field.value)).filter(line => line.trim() !== '');
+        rows[addressKey] = formatters.address(lines);
+        continue;
+      }
+
+      for (const field of fields) {
+        const value = this.format(field, formatters);
+        if (value.trim() !== '') {
+          rows[options.keys?.[field.label] ?? field.label] = value;
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Compare expected rows with the rows shown
+   * Whitespace is ignored, since multi-line values lose their line breaks in text content.
+   * A row whose key is not shown - e.g. a radio question recorded under its
+   * legend, which check answers words differently - matches the shown row with
+   * the same value, but only when it is the one row not shown and exactly one
+   * unclaimed row has that value. With more than one, answers shown under
+   * each other's keys (e.g. two Yes/No questions swapped) would still match,
+   * so they are reported as ambiguous: pass `keys` to SummaryRows.derive to
+   * match them by key.
+   */
+  static diff(expected: Record<string, string>, actual: Record<string, string>): SummaryDiff {
+    const normalise = (value: string) => value.replace(/\s+/g, '');
+    const unclaimed = Object.keys(actual).filter(key => expected[key] === undefined);
+    const unshown = Object.entries(expected).filter(([key]) => actual[key] === undefined);
+    const matchedByValue: SummaryDiff['matchedByValue'] = [];
+    const ambiguous: SummaryDiff['ambiguous'] = [];
+    const missing: string[] = [];
+
+    for (const [key, value] of unshown) {
+      const candidates = unclaimed.filter(candidate => normalise(actual[candidate]) === normalise(value));
+
+      if (candidates.length === 0) {
+        missing.push(key);
+      } else if (candidates.length === 1 && unshown.length === 1) {
+        matchedByValue.push({ key, shownAs: candidates[0] });
+      } else {
+        ambiguous.push({ key, candidates });
+      }
+    }
+
+    return {
+      missing,
+      matchedByValue,
+      ambiguous,
+      mismatched: Object.entries(expected)
+        .filter(([key, value]) => actual[key] !== undefined && normalise(actual[key]) !== normalise(value))
+        .map(([key, value]) => ({ key, expected: value, actual: actual[key] })),
+      unexpected: unclaimed.filter(key => !matchedByValue.some(match => match.shownAs === key))
+    };
+  }
+
+  /**
+   * Whether a diff shows check answers disagreeing with what was entered
+   * With `strict`, rows the test never entered count too.
+   */
+  static failed(diff: SummaryDiff, options: { strict?: boolean } = {}): boolean {
+    return diff.missing.length > 0 || diff.ambiguous.length > 0 || diff.mismatched.length > 0 ||
+      (options.strict === true && diff.unexpected.length > 0);
+  }
+
+  /**
+   * Describe a diff for error messages
+   */
+  static describe(diff: SummaryDiff): string {
+    return [
+      ...diff.missing.map(key => `  missing row: "${key}"`),
+      ...diff.ambiguous.map(row => `  "${row.key}" is not shown - matching it to ${row.candidates.map(key => `"${key}"`).join(' or ')} by its answer would be a guess, pass keys to match it`),
+      ...diff.mismatched.map(row => `  "${row.key}": expected "${row.expected}", shown "${row.actual}"`),
+      ...diff.unexpected.map(key => `  row not entered by the test: "${key}"`),
+      ...diff.matchedByValue.map(row => `  "${row.key}" matched by its answer to row "${row.shownAs}"`)
+    ].join('\n');
+  }
+
+  private static format(field: EnteredField, formatters: SummaryFormatters): string {
+    switch (field.kind) {
+      case 'date':
+        return formatters.date(parseDate(field.label, field.value));
+      case 'radio':
+      case 'radios':
+        return formatters.radios(this.asText(field.value));
+      case 'checkbox':
+      case 'checkboxes':
+        return formatters.checkboxes(Array.isArray(field.value) ? field.value : [this.asText(field.value)]);
+      default:
+        return formatters.text(this.asText(field.value));
+    }
+  }
+
+  private static asText(value: FieldValue): string {
+    if (Array.isArray(value)) return value.join('\n');
+    if (typeof value === 'object') return `${value.day}/${value.month}/${value.year}`;
+    return value;
+  }
+}
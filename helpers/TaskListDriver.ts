@@ -0,0 +1,133 @@
+/// <reference lib="dom" />
+import { Page } from '@playwright/test';
+
+/**
+ * Task List Driver
+ * Reads a GOV.UK task list page - every task with its section, status and
+ * whether it can be started - and records how each task's status changes
+ */
+
+export type TaskStatus = 'Not started' | 'In progress' | 'Completed' | 'Cannot start yet';
+
+export interface TaskListTask {
+  name: string;
+  section: string;
+  status: string;
+  hint?: string;
+  canStart: boolean;
+}
+
+export const CANNOT_START_YET = 'Cannot start yet';
+
+export class TaskListDriver {
+  constructor(private page: Page) {}
+
+  /**
+   * Check whether the current page is a task list
+   */
+  async isTaskListPage(): Promise<boolean> {
+    return await this.page.locator('.govuk-task-list').first().isVisible().catch(() => false);
+  }
+
+  /**
+   * Read every task on the page, in order
+   * A task's section is the heading before its list; it can be started when its name is a link
+   */
+  async readTasks(): Promise<TaskListTask[]> {
+    return await this.page.locator('.govuk-task-list').evaluateAll(lists => {
+      const findSection = (list: Element): string => {
+        for (let sibling = list.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+          if (/^H[1-6]$/.test(sibling.tagName)) {
+            return sibling.textContent?.trim() || '';
+          }
+        }
+        const parentHeading = list.parentElement?.querySelector(':scope > h2, :scope > h3');
+        return parentHeading?.textContent?.trim() || '';
+      };
+
+      return lists.flatMap(list => {
+        const section = findSection(list);
+
+        return Array.from(list.querySelectorAll('.govuk-task-list__item')).map(item => {
+          const link = item.querySelector('a');
+          const hint = item.querySelector('.govuk-task-list__hint')?.textContent?.trim();
+          const nameElement = link || item.querySelector('.govuk-task-list__name-and-hint > :first-child');
+          const name = (nameElement?.textContent || item.querySelector('.govuk-task-list__name-and-hint')?.textContent || '').trim();
+          const status = item.querySelector('.govuk-task-list__status')?.textContent?.trim() || '';
+
+          return { name, section, status, ...(hint ? { hint } : {}), canStart: link !== null };
+        });
+      });
+    });
+  }
+
+  /**
+   * Get a task by name
+   */
+  async getTask(taskName: string): Promise<TaskListTask> {
+    const tasks = await this.readTasks();
+    const task = tasks.find(candidate => candidate.name === taskName);
+
+    if (!task) {
+      throw new Error(`Task "${taskName}" not found. Available tasks: ${tasks.map(t => t.name).join(', ')}`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Get the status of every task, keyed by task name
+   */
+  async getStatuses(): Promise<Record<string, string>> {
+    const tasks = await this.readTasks();
+    return Object.fromEntries(tasks.map(task => [task.name, task.status]));
+  }
+
+  /**
+   * Verify a task's status
+   */
+  async verifyStatus(taskName: string, status: TaskStatus): Promise<void> {
+    const task = await this.getTask(taskName);
+    if (task.status !== status) {
+      throw new Error(`Expected task "${taskName}" to have status "${status}" but got "${task.status}"`);
+    }
+  }
+
+  /**
+   * Verify a task cannot be started yet - it has no link and says so
+   */
+  async verifyCannotStartYet(taskName: string): Promise<void> {
+    const task = await this.getTask(taskName);
+    if (task.canStart || task.status !== CANNOT_START_YET) {
+      throw new Error(
+        `Expected task "${taskName}" to be "${CANNOT_START_YET}" but it ${task.canStart ? 'has a link' : 'has no link'} ` +
+        `and status "${task.status}"`
+      );
+    }
+  }
+
+  /**
+   * Verify a task can be started - its name is a link
+   */
+  async verifyCanStart(taskName: string): Promise<void> {
+    const task = await this.getTask(taskName);
+    if (!task.canStart) {
+      throw new Error(`Expected task "${taskName}" to be startable but it has no link (status "${task.status}")`);
+    }
+  }
+
+  /**
+   * Check a recorded status history only ever moves forward:
+   * Not started → In progress → Completed
+   */
+  static verifyProgression(taskName: string, history: string[]): void {
+    const order: string[] = [CANNOT_START_YET, 'Not started', 'In progress', 'Completed'];
+    const ranks = history.map(status => order.indexOf(status)).filter(rank => rank >= 0);
+
+    for (let i = 1; i < ranks.length; i++) {
+      if (ranks[i] < ranks[i - 1]) {
+        throw new Error(`Task "${taskName}" went backwards: ${history.join(' → ')}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { AccessibilityReport, AccessibilityScan, ReportedScan } from '../helpers/AccessibilityReport';
+
+/**
+ * Accessibility Reporter
+ * Collects the axe scans attached by every test in a run into one report:
+ * a11y-report/index.html and a11y-report/a11y-report.json
+ *
+ * Configured in playwright.config.ts; pass `outputFolder` to write elsewhere.
+ */
+
+interface AccessibilityReporterOptions {
+  outputFolder?: string;
+}
+
+class AccessibilityReporter implements Reporter {
+  private scans: ReportedScan[] = [];
+  private outputFolder: string;
+
+  constructor(options: AccessibilityReporterOptions = {}) {
+    this.outputFolder = path.resolve(options.outputFolder || 'a11y-report');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name !== AccessibilityReport.ATTACHMENT_NAME || !attachment.body) {
+        continue;
+      }
+
+      const scan: AccessibilityScan = JSON.parse(attachment.body.toString('utf-8'));
+      this.scans.push({
+        ...scan,
+        test: test.titlePath().slice(1).join(' › '),
+        file: path.relative(process.cwd(), test.location.file)
+      });
+    }
+  }
+
+  onEnd(): void {
+    if (this.scans.length === 0) {
+      return;
+    }
+
+    const report = AccessibilityReport.build(this.scans);
+
+    fs.mkdirSync(this.outputFolder, { recursive: true });
+    fs.writeFileSync(path.join(this.outputFolder, 'a11y-report.json'), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(this.outputFolder, 'index.html'), AccessibilityReport.renderHtml(report));
+
+    console.log(
+      `Accessibility report: ${report.totals.rules} rule(s) failed on ${report.totals.nodes} element(s) ` +
+      `across ${report.scans} scan(s) - ${path.relative(process.cwd(), this.outputFolder)}/index.html`
+    );
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default AccessibilityReporter;
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccessibilityBaseline, ObservedViolations } from '../helpers/AccessibilityBaseline';
+
+/**
+ * Update the accessibility baseline from the violations the last test run saw
+ *
+ * Reads the violations recorded by the accessibility tests from test-results
+ * and removes baseline entries that no longer occur on the pages scanned.
+ * Pages the run did not scan are left alone.
+ *
+ * Usage:
+ *   npm run a11y:baseline
+ *   npm run a11y:baseline -- --accept-new   (also add violations not yet in the baseline)
+ */
+
+const RESULTS_DIR = path.resolve(__dirname, '../test-results');
+
+function findObserved(dir: string): ObservedViolations[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findObserved(entryPath);
+    }
+    return entry.name === AccessibilityBaseline.OBSERVED_FILE_NAME
+      ? [JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as ObservedViolations]
+      : [];
+  });
+}
+
+function main(): number {
+  const acceptNew = process.argv.includes('--accept-new');
+  const records = findObserved(RESULTS_DIR);
+
+  if (records.length === 0) {
+    console.error(`No recorded accessibility scans in ${RESULTS_DIR} - run the accessibility tests first`);
+    return 1;
+  }
+
+  // A page scanned by several tests keeps every violation any of them saw
+  const observed: ObservedViolations = { pages: {} };
+  for (const record of records) {
+    for (const [pageKey, violations] of Object.entries(record.pages)) {
+      observed.pages[pageKey] = [...(observed.pages[pageKey] || []), ...violations];
+    }
+  }
+
+  const filePath = AccessibilityBaseline.defaultPath();
+  const baseline = AccessibilityBaseline.load(filePath);
+  const update = baseline.ratchet(observed, { acceptNew });
+  baseline.save(filePath);
+
+  console.log(`Accessibility baseline from ${Object.keys(observed.pages).length} scanned page(s)`);
+  console.log(`  Removed ${update.removed} fixed violation(s)`);
+  console.log(acceptNew
+    ? `  Added ${update.added} new violation(s)`
+    : '  New violations were not added - pass --accept-new to accept them');
+  console.log(`Updated ${path.relative(process.cwd(), filePath)}`);
+
+  return 0;
+}
+
+process.exit(main());
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { listStoryIds, loadStory } from './lib/stories';
+import { SpecGenerator } from './lib/SpecGenerator';
+
+/**
+ * Generate journey specs from story documents
+ *
+ * Usage:
+ *   npm run gen:tests -- --journey=<journey-id>
+ *   npm run gen:tests -- --all
+ *   npm run gen:tests -- --all --strict   (fail if a story page has no pageDetails)
+ */
+
+const OUTPUT_DIR = path.resolve(__dirname, '../tests/generated');
+
+function parseArgs(argv: string[]): string[] {
+  if (argv.includes('--all')) {
+    return listStoryIds();
+  }
+
+  const journeyIds = argv
+    .filter(arg => arg.startsWith('--journey='))
+    .map(arg => arg.slice('--journey='.length))
+    .filter(id => id.length > 0);
+
+  if (journeyIds.length === 0) {
+    throw new Error('Specify --journey=<journey-id> or --all');
+  }
+
+  return journeyIds;
+}
+
+function main(): void {
+  const journeyIds = parseArgs(process.argv.slice(2));
+  const strict = process.argv.includes('--strict');
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const journeyId of journeyIds) {
+    const story = loadStory(journeyId);
+    const generator = new SpecGenerator(story, { strict });
+    const source = generator.generate();
+    const outputPath = path.join(OUTPUT_DIR, `${story.journeyId}.spec.ts`);
+
+    for (const warning of generator.getWarnings()) {
+      console.warn(`Warning: ${warning}`);
+    }
+
+    fs.writeFileSync(outputPath, source);
+    console.log(`Generated ${path.relative(process.cwd(), outputPath)}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataDrivenJourney } from '../helpers/DataDrivenJourney';
+import { JourneyCoverage, JourneyCoverageRecord, JourneyGraph } from '../helpers/JourneyGraph';
+import { listStoryIds, loadStory } from './lib/stories';
+
+/**
+ * Report which pages and transitions of each journey the last test run exercised
+ *
+ * Reads the routes recorded by the data-driven journey tests from test-results,
+ * and lists the routes through each story that no test scenario follows.
+ *
+ * Usage:
+ *   npm run journey:coverage
+ *   npm run journey:coverage -- --strict   (exit 1 if anything was not exercised)
+ */
+
+const RESULTS_DIR = path.resolve(__dirname, '../test-results');
+
+function findRecords(dir: string): JourneyCoverageRecord[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findRecords(entryPath);
+    }
+    return entry.name === JourneyCoverage.FILE_NAME
+      ? [JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as JourneyCoverageRecord]
+      : [];
+  });
+}
+
+function main(): number {
+  const strict = process.argv.includes('--strict');
+  const records = findRecords(RESULTS_DIR);
+  let gaps = 0;
+
+  console.log(`Journey coverage from ${records.length} recorded route(s)\n`);
+
+  for (const definition of DataDrivenJourney.loadAll()) {
+    const report = JourneyCoverage.report(definition.id, JourneyGraph.fromDefinition(definition), records);
+    gaps += report.pages.missed.length + report.transitions.missed.length;
+    console.log(JourneyCoverage.format(report));
+  }
+
+  for (const storyId of listStoryIds()) {
+    const story = loadStory(storyId);
+    const scenarios = story.stories.flatMap(s => s.testScenarios.map(scenario => scenario.pageIds.join(' > ')));
+    const routes = JourneyGraph.fromStory(story).enumerateRoutes();
+    const untested = routes.filter(route => !scenarios.includes(route.pages.join(' > ')));
+
+    gaps += untested.length;
+    console.log(`${story.journeyId} (story)`);
+    console.log(`  Routes: ${routes.length - untested.length}/${routes.length} followed by a test scenario`);
+    untested.forEach(route => console.log(`    no scenario: ${route.pages.join(' > ')}`));
+  }
+
+  return strict && gaps > 0 ? 1 : 0;
+}
+
+process.exit(main());
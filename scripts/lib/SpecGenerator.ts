@@ -0,0 +1,288 @@
+import { StoryDocument, StoryField, StoryPageDetails, StoryTestScenario } from '../../tests/shared/validation/schemas';
+
+/**
+ * Spec Generator
+ * Turns a story document into a JourneyBuilder/AdaptiveBlocks based spec file
+ *
+ * The output only depends on the story document, so regenerating an unchanged
+ * story produces an identical spec.
+ */
+export interface SpecGeneratorOptions {
+  /** Fail on pages without pageDetails instead of warning */
+  strict?: boolean;
+}
+
+export class SpecGenerator {
+  private usesContactData = false;
+  private usesPostcode = false;
+  private missingPageDetails = new Set<string>();
+
+  constructor(private story: StoryDocument, private options: SpecGeneratorOptions = {}) {}
+
+  /**
+   * Problems found by the last generate() - pages walked without their heading or fields
+   */
+  getWarnings(): string[] {
+    return [...this.missingPageDetails].map(pageId =>
+      `Story "${this.story.journeyId}" has no pageDetails for "${pageId}" - the generated spec continues past it without checking it`);
+  }
+
+  /**
+   * Generate the full spec file source
+   */
+  generate(): string {
+    if (!this.story.journeyPath) {
+      throw new Error(`Story "${this.story.journeyId}" has no journeyPath - cannot generate a spec`);
+    }
+
+    this.missingPageDetails.clear();
+    const scenarios = this.story.stories.flatMap(story => story.testScenarios);
+    const happyPathTests = scenarios.map(scenario => this.generateHappyPathTest(scenario, scenarios.length > 1));
+    const validationTests = scenarios
+      .map(scenario => this.generateValidationTest(scenario))
+      .filter((source): source is string => source !== null);
+
+    if (this.options.strict && this.missingPageDetails.size > 0) {
+      throw new Error(this.getWarnings().join('\n'));
+    }
+
+    return [
+      ...this.generateHeader(scenarios),
+      `test.describe('${this.story.journeyId}', () => {`,
+      `  const JOURNEY_PATH = ${quote(this.story.journeyPath)};`,
+      '',
+      `  test.describe('Happy Path Tests', () => {`,
+      '',
+      ...happyPathTests,
+      '  });',
+      '',
+      ...(validationTests.length > 0
+        ? [`  test.describe('Validation Tests', () => {`, '', ...validationTests, '  });', '']
+        : []),
+      '});',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Imports and the descriptive header comment
+   */
+  private generateHeader(scenarios: StoryTestScenario[]): string[] {
+    const componentTypes = [...new Set(scenarios.flatMap(scenario => scenario.componentTypes))];
+
+    return [
+      `import { test, expect } from '../../fixtures/base.fixture';`,
+      `import { TestDataFactory } from '../../helpers/TestDataFactory';`,
+      `import { JourneyBuilder } from '../../helpers/JourneyBuilder';`,
+      `import { AdaptiveBlocks } from '../../helpers/AdaptiveBlocks';`,
+      '',
+      '/**',
+      ` * ${this.story.journeyId} - Generated Tests`,
+      ' * ',
+      ` * Generated from journey: ${this.story.journeyId}`,
+      ` * Story generated at: ${this.story.generatedAt || 'unknown'}`,
+      ` * Regenerate with: npm run gen:tests -- --journey=${this.story.journeyId}`,
+      ' * ',
+      ' * Journey Structure:',
+      ` * - Pages: ${this.story.totalPages ?? scenarios[0]?.pageIds.length ?? 0}`,
+      ` * - Components: ${this.story.totalComponents ?? 0}`,
+      ` * - Component Types: ${componentTypes.join(', ')}`,
+      ` * - User Stories: ${this.story.stories.length}`,
+      ` * - Test Scenarios: ${scenarios.length}`,
+      ' */',
+      ''
+    ];
+  }
+
+  /**
+   * One test that walks every page of a scenario through to confirmation
+   */
+  private generateHappyPathTest(scenario: StoryTestScenario, includeScenarioTitle: boolean): string {
+    this.resetDataUsage();
+    const steps = scenario.pageIds.map((pageId, index) => this.generatePageStep(pageId, index === 0));
+    const title = includeScenarioTitle
+      ? `should complete full journey using adaptive blocks - ${scenario.title}`
+      : 'should complete full journey using adaptive blocks';
+    const tags = scenario.priority === 'high' ? '@smoke @journey' : '@journey';
+
+    return [
+      `    test(${quote(`${title} ${tags}`)}, async ({`,
+      '      page,',
+      '      journeyRunner,',
+      '      componentHelper',
+      '    }) => {',
+      ...this.generateDataDeclarations(),
+      '      const builder = new JourneyBuilder(page, journeyRunner, componentHelper);',
+      '',
+      '      await builder',
+      ...steps.flat(),
+      '',
+      '        .execute();',
+      '    });',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * One test that submits the first question page of a scenario empty
+   */
+  private generateValidationTest(scenario: StoryTestScenario): string | null {
+    const targetIndex = scenario.pageIds.findIndex(pageId => (this.getPageDetails(pageId)?.fields || []).length > 0);
+    if (targetIndex === -1) {
+      return null;
+    }
+
+    const targetPageId = scenario.pageIds[targetIndex];
+    const target = this.getPageDetails(targetPageId) as StoryPageDetails;
+    this.resetDataUsage();
+    const steps = scenario.pageIds
+      .slice(0, targetIndex)
+      .map((pageId, index) => this.generatePageStep(pageId, index === 0));
+
+    return [
+      `    test(${quote(`should show errors when ${targetPageId} is submitted empty @journey @validation`)}, async ({`,
+      '      page,',
+      '      journeyRunner,',
+      '      componentHelper',
+      '    }) => {',
+      ...this.generateDataDeclarations(),
+      '      const builder = new JourneyBuilder(page, journeyRunner, componentHelper);',
+      '',
+      '      await builder',
+      ...steps.flat(),
+      `        // ${targetPageId} - submit without filling`,
+      '        .addCustomStep(async ({ journeyRunner }) => {',
+      `          await journeyRunner.verifyHeading(${quote(target.heading)});`,
+      '          await journeyRunner.continue();',
+      '        })',
+      '        .addStep(AdaptiveBlocks.smartVerifyErrors([]))',
+      '',
+      '        .execute();',
+      '    });',
+      ''
+    ].join('\n');
+  }
+
+  private resetDataUsage(): void {
+    this.usesContactData = false;
+    this.usesPostcode = false;
+  }
+
+  /**
+   * Shared test data, declared only when a field value refers to it
+   */
+  private generateDataDeclarations(): string[] {
+    const declarations: string[] = [];
+    if (this.usesContactData) {
+      declarations.push('      const contactData = TestDataFactory.generateContactDetails();');
+    }
+    if (this.usesPostcode) {
+      declarations.push('      const testPostcode = TestDataFactory.generatePostcode();');
+    }
+    return declarations;
+  }
+
+  /**
+   * Builder chain lines for a single page
+   */
+  private generatePageStep(pageId: string, isFirstPage: boolean): string[] {
+    const details = this.getPageDetails(pageId);
+    const lines = [
+      `        // ${isFirstPage ? 'Start journey' : pageId}`,
+      '        .addCustomStep(async ({ journeyRunner }) => {'
+    ];
+
+    if (isFirstPage) {
+      lines.push('          await journeyRunner.startJourney(JOURNEY_PATH);');
+    }
+
+    if (!details) {
+      this.missingPageDetails.add(pageId);
+      lines.push('          await journeyRunner.continue();');
+      lines.push('        })');
+      return lines;
+    }
+
+    lines.push(`          await journeyRunner.verifyHeading(${quote(details.heading)});`);
+
+    if (pageId === 'check-answers') {
+      lines.push('          await journeyRunner.submit();');
+    } else if (pageId !== 'confirmation') {
+      if (details.fields && details.fields.length > 0) {
+        lines.push('          await journeyRunner.fillStep({');
+        for (const field of details.fields) {
+          lines.push(`            ${this.generateFieldEntry(pageId, field)},`);
+        }
+        lines.push('          });');
+      }
+      lines.push('          await journeyRunner.continue();');
+    }
+
+    lines.push('        })');
+    return lines;
+  }
+
+  /**
+   * A single `fillStep` entry in the format JourneyRunner understands
+   */
+  private generateFieldEntry(pageId: string, field: StoryField): string {
+    if (field.type === 'radios') {
+      if (typeof field.value !== 'string') {
+        throw new Error(`Page "${pageId}" radios "${field.label}" needs a string value naming the option to select`);
+      }
+      return `${quote(`${field.label}: ${field.value}`)}: ${quote(field.value.toLowerCase())}`;
+    }
+
+    if (field.type === 'checkboxes') {
+      if (!Array.isArray(field.value)) {
+        throw new Error(`Page "${pageId}" checkboxes "${field.label}" needs an array value listing the options to check`);
+      }
+      return `${quote(field.label)}: [${field.value.map(quote).join(', ')}]`;
+    }
+
+    return `${quote(field.label)}: ${this.generateValueExpression(field)}`;
+  }
+
+  /**
+   * Literal value from the story, or test data chosen from the field type and label
+   */
+  private generateValueExpression(field: StoryField): string {
+    if (typeof field.value === 'string') {
+      return quote(field.value);
+    }
+
+    const label = field.label.toLowerCase();
+
+    if (field.type === 'email' || label.includes('email')) {
+      this.usesContactData = true;
+      return 'contactData.email';
+    }
+    if (field.type === 'tel' || label.includes('phone')) {
+      this.usesContactData = true;
+      return 'contactData.phone';
+    }
+    if (label.includes('postcode')) {
+      this.usesPostcode = true;
+      return 'testPostcode';
+    }
+    if (label.includes('name')) {
+      this.usesContactData = true;
+      return 'contactData.fullName';
+    }
+    if (field.type === 'date') {
+      return quote('01 01 2000');
+    }
+    return quote('Test Value');
+  }
+
+  private getPageDetails(pageId: string): StoryPageDetails | undefined {
+    return this.story.pageDetails?.[pageId];
+  }
+}
+
+/**
+ * Quote a string as a single-quoted TypeScript literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StoryDocument, parseWithSchema, storyDocumentSchema } from '../../tests/shared/validation/schemas';
+
+/**
+ * Story Documents
+ * Loaders for the journey stories in stories/json
+ */
+
+export const STORIES_DIR = path.resolve(__dirname, '../../stories/json');
+
+/**
+ * List the journey ids that have a story document
+ */
+export function listStoryIds(): string[] {
+  return fs.readdirSync(STORIES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'))
+    .sort();
+}
+
+/**
+ * Load the story document for a journey, validated against the story schema
+ */
+export function loadStory(journeyId: string): StoryDocument {
+  const filePath = path.join(STORIES_DIR, `${journeyId}.json`);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No story found for journey "${journeyId}". Available: ${listStoryIds().join(', ')}`);
+  }
+
+  return parseWithSchema(storyDocumentSchema, JSON.parse(fs.readFileSync(filePath, 'utf-8')), `stories/json/${journeyId}.json`);
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { STORIES_DIR, listStoryIds } from './lib/stories';
+import { describeSchemaIssues, journeysFileSchema, storyDocumentSchema } from '../tests/shared/validation/schemas';
+
+/**
+ * Validate journey definition and story files against their schemas
+ *
+ * Reports every invalid entry with its JSON path, so a typo in a heading or
+ * field type fails here rather than as a timeout in a browser run.
+ *
+ * Usage:
+ *   npm run validate:journeys
+ */
+
+const JOURNEYS_FILE = path.resolve(__dirname, '../test-data/journeys.json');
+
+function validateFile(filePath: string, schema: z.ZodTypeAny): string[] {
+  const relativePath = path.relative(process.cwd(), filePath);
+  let data: unknown;
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    return [`${relativePath}: ${error instanceof Error ? error.message : error}`];
+  }
+
+  const result = schema.safeParse(data);
+  return result.success ? [] : describeSchemaIssues(result.error).map(issue => `${relativePath} ${issue}`);
+}
+
+function main(): number {
+  const files: Array<[string, z.ZodTypeAny]> = [
+    [JOURNEYS_FILE, journeysFileSchema],
+    ...listStoryIds().map((id): [string, z.ZodTypeAny] => [path.join(STORIES_DIR, `${id}.json`), storyDocumentSchema])
+  ];
+
+  const problems = files.flatMap(([filePath, schema]) => validateFile(filePath, schema));
+
+  if (problems.length > 0) {
+    console.error(`Found ${problems.length} problem(s) in journey files:`);
+    problems.forEach(problem => console.error(`  ${problem}`));
+    return 1;
+  }
+
+  console.log(`Validated ${files.length} journey file(s)`);
+  return 0;
+}
+
+process.exit(main());
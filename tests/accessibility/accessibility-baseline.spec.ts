@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import { test, expect } from '@playwright/test';
+import { AccessibilityBaseline } from '../../helpers/AccessibilityBaseline';
+import { AccessibilityViolation } from '../../helpers/JourneyAccessibility';
+
+/**
+ * Accessibility Baseline Tests
+ * Comparing scans with the known violations and ratcheting the baseline
+ * file - no browser needed
+ */
+test.describe('Accessibility baseline @a11y', () => {
+  const JOURNEY_PAGE = '/register/apply | Who is registering the aircraft?';
+
+  const violation = (id: string, targets: string[]): AccessibilityViolation => ({
+    id,
+    impact: 'serious',
+    help: `${id} help`,
+    helpUrl: `https://dequeuniversity.com/rules/axe/${id}`,
+    nodes: targets.length,
+    targets
+  });
+
+  const baseline = () => new AccessibilityBaseline({
+    pages: {
+      '/register/apply': {
+        'document-title': { impact: 'serious', help: 'Documents must have <title> element', targets: ['html'] }
+      },
+      [JOURNEY_PAGE]: {
+        'color-contrast': { impact: 'serious', help: 'Contrast', targets: ['.govuk-hint', '#applicant-type-hint'] }
+      }
+    }
+  });
+
+  test('should report violations not in the baseline as new and entries no longer seen as fixed', () => {
+    const comparison = baseline().compare(JOURNEY_PAGE, [
+      violation('color-contrast', ['.govuk-hint', '.govuk-inset-text']),
+      violation('document-title', ['html'])
+    ]);
+
+    expect(comparison.new).toEqual([{ rule: 'color-contrast', target: '.govuk-inset-text' }]);
+    expect(comparison.fixed).toEqual([{ rule: 'color-contrast', target: '#applicant-type-hint' }]);
+  });
+
+  test('should tolerate path-wide entries on journey pages without reporting them fixed there', () => {
+    const journeyPage = baseline().compare(`${JOURNEY_PAGE} | errors`, [violation('document-title', ['html'])]);
+    expect(journeyPage.new).toEqual([]);
+    expect(journeyPage.fixed).toEqual([]);
+
+    const cleanJourneyPage = baseline().compare(JOURNEY_PAGE, [violation('color-contrast', ['.govuk-hint', '#applicant-type-hint'])]);
+    expect(cleanJourneyPage.fixed).toEqual([]);
+
+    const cleanPath = baseline().compare('/register/apply', []);
+    expect(cleanPath.fixed).toEqual([{ rule: 'document-title', target: 'html' }]);
+  });
+
+  test('should drop fixed entries and, with acceptNew, add new ones', () => {
+    const known = baseline();
+    const observed = { pages: { [JOURNEY_PAGE]: [violation('color-contrast', ['.govuk-hint', '.govuk-inset-text'])] } };
+
+    expect(known.ratchet(observed)).toEqual({ removed: 1, added: 0 });
+    expect(known.compare(JOURNEY_PAGE, observed.pages[JOURNEY_PAGE]).new).toEqual([{ rule: 'color-contrast', target: '.govuk-inset-text' }]);
+
+    expect(known.ratchet(observed, { acceptNew: true })).toEqual({ removed: 0, added: 1 });
+    expect(known.compare(JOURNEY_PAGE, observed.pages[JOURNEY_PAGE])).toEqual({ pageKey: JOURNEY_PAGE, new: [], fixed: [] });
+  });
+
+  test('should leave out rules and pages with no violations left when saving', () => {
+    const known = baseline();
+    known.ratchet({ pages: { [JOURNEY_PAGE]: [] } });
+
+    const filePath = test.info().outputPath('a11y-baseline.json');
+    known.save(filePath);
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({
+      pages: {
+        '/register/apply': {
+          'document-title': { impact: 'serious', help: 'Documents must have <title> element', targets: ['html'] }
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { AccessibilityReport, ReportedScan, ScannedViolation } from '../../helpers/AccessibilityReport';
+
+/**
+ * Accessibility Report Tests
+ * Grouping a run's scans by rule, page and component, and rendering them
+ * as HTML - no browser needed
+ */
+test.describe('Accessibility report @a11y', () => {
+  const PAGE_URL = 'http://localhost:5173/register/apply';
+
+  const contrast = (target: string): ScannedViolation => ({
+    id: 'color-contrast',
+    impact: 'serious',
+    description: 'Ensures the contrast between foreground and background colors meets WCAG 2 AA',
+    help: 'Elements must have sufficient color contrast',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/color-contrast',
+    tags: ['wcag2aa'],
+    nodes: [{ target, html: '<div class="govuk-hint">Hint</div>', component: 'hint' }]
+  });
+
+  const scan = (testTitle: string, heading: string, violations: ScannedViolation[]): ReportedScan => ({
+    url: PAGE_URL,
+    title: '',
+    heading,
+    state: 'page',
+    scannedAt: '2026-01-01T00:00:00.000Z',
+    violations,
+    passes: 10,
+    incomplete: 0,
+    test: testTitle,
+    file: 'tests/accessibility/journey-sweep.spec.ts'
+  });
+
+  test('should count an element once per page, however many tests scanned it', () => {
+    const report = AccessibilityReport.build([
+      scan('first test', 'Who is registering the aircraft?', [contrast('.govuk-hint')]),
+      scan('second test', 'Who is registering the aircraft?', [contrast('.govuk-hint')]),
+      scan('second test', 'Enter aircraft details', [contrast('.govuk-hint')])
+    ]);
+
+    expect(report.scans).toBe(3);
+    expect(report.tests).toBe(2);
+    expect(report.byPage).toEqual({
+      '/register/apply | Who is registering the aircraft?': { 'color-contrast': 1 },
+      '/register/apply | Enter aircraft details': { 'color-contrast': 1 }
+    });
+    expect(report.byComponent).toEqual({ hint: { 'color-contrast': 2 } });
+    expect(report.rules.map(rule => rule.nodes.map(node => node.test))).toEqual([['first test', 'second test']]);
+    expect(report.totals).toEqual({ rules: 1, nodes: 2, byImpact: { serious: 2 } });
+  });
+
+  test('should escape selectors and markup in the HTML report', () => {
+    const html = AccessibilityReport.renderHtml(AccessibilityReport.build([
+      scan('escaping test', 'Enter aircraft details', [contrast('input[value="<b>"]')])
+    ]));
+
+    expect(html).toContain('<code>input[value=&quot;&lt;b&gt;&quot;]</code>');
+    expect(html).toContain('<code>&lt;div class=&quot;govuk-hint&quot;&gt;Hint&lt;/div&gt;</code>');
+    expect(html).not.toContain('value="<b>"');
+  });
+});
@@ -0,0 +1,48 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { AdaptiveBlocks } from '../../helpers/AdaptiveBlocks';
+import { assertErrorSummaryFocused, assertFocusAfterNavigation } from '../shared/accessibility/assertions';
+
+/**
+ * Focus Management Tests
+ * Focus moves to the error summary after a failed submit, and to the new
+ * page after continue and back - not left on the body or a removed button
+ */
+test.describe('Focus management @a11y @journey', () => {
+  const JOURNEY_PATH = '/civil-aviation-authority/register-a-plane/apply';
+
+  test('should focus the error summary, then the next page, then the previous page', async ({
+    page,
+    journeyRunner
+  }) => {
+    journeyRunner.setFocusChecks('enforce');
+    await journeyRunner.startJourney(JOURNEY_PATH);
+
+    await journeyRunner.continue();
+    await assertErrorSummaryFocused(page);
+
+    await journeyRunner.selectRadio('An individual');
+    await journeyRunner.continue();
+    await journeyRunner.verifyHeading('Enter aircraft details');
+
+    await journeyRunner.goBack();
+    await journeyRunner.verifyHeading('Who is registering the aircraft?');
+
+    const [lastCheck] = journeyRunner.getFocusRecords().slice(-1);
+    await assertFocusAfterNavigation(page, { fullPageLoad: lastCheck.fullPageLoad });
+  });
+
+  for (const definition of DataDrivenJourney.loadAll()) {
+    test(`should manage focus through ${definition.name}`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      await new JourneyBuilder(page, journeyRunner, componentHelper)
+        .addSteps(DataDrivenJourney.buildSteps(definition))
+        .addStep(AdaptiveBlocks.verifyFocusManagement(), 'Verify focus management')
+        .execute();
+    });
+  }
+});
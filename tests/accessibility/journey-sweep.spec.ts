@@ -0,0 +1,25 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { AccessibilityBaseline } from '../../helpers/AccessibilityBaseline';
+
+/**
+ * Journey Accessibility Sweep
+ * Scans every page of each journey in test-data/journeys.json, including the
+ * error state of each question page, and attaches one report per journey
+ * Violations in test-data/a11y-baseline.json are tolerated
+ */
+test.describe('Journey accessibility sweep @a11y @journey', () => {
+  for (const definition of DataDrivenJourney.loadAll()) {
+    test(`should have no WCAG 2.1 AA violations on any page of ${definition.name}`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      await new JourneyBuilder(page, journeyRunner, componentHelper)
+        .withAccessibilitySweep({ baseline: AccessibilityBaseline.load() })
+        .addSteps(DataDrivenJourney.buildSteps(definition))
+        .execute();
+    });
+  }
+});
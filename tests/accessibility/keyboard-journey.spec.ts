@@ -0,0 +1,146 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { GovUKPatternBlocks } from '../../helpers/GovUKPatternBlocks';
+import { KeyboardAccessError } from '../../helpers/KeyboardDriver';
+
+/**
+ * Keyboard-Only Journey Tests
+ * Completes each journey in test-data/journeys.json with Tab, Space, Enter,
+ * arrow keys and typing only - fails when a control cannot be reached or
+ * operated from the keyboard
+ */
+test.describe('Keyboard-only journeys @a11y @journey', () => {
+  for (const definition of DataDrivenJourney.loadAll()) {
+    test(`should complete ${definition.name} with the keyboard only`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      journeyRunner.useKeyboardOnly();
+
+      await new JourneyBuilder(page, journeyRunner, componentHelper)
+        .addSteps(DataDrivenJourney.buildSteps(definition))
+        .execute();
+    });
+  }
+});
+
+/**
+ * Runs keyboard-only mode against an isolated page, served by a route
+ * handler, whose start button, field or Continue button can be taken out of
+ * the tab order
+ */
+test.describe('Keyboard-only mode @a11y', () => {
+  const FIXTURE_PATH = '/test-fixtures/keyboard-access';
+
+  test.beforeEach(async ({ page, journeyRunner }) => {
+    await page.route(url => url.pathname === FIXTURE_PATH, route => route.fulfill({
+      contentType: 'text/html',
+      body: keyboardAccessPage(new URL(route.request().url()).searchParams.get('unreachable') || '')
+    }));
+    journeyRunner.useKeyboardOnly();
+  });
+
+  test('should complete a page whose controls are all in the tab order', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    await new JourneyBuilder(page, journeyRunner, componentHelper)
+      .addCustomStep(async ({ journeyRunner }) => {
+        await journeyRunner.startJourney(FIXTURE_PATH);
+      })
+      .addStep(GovUKPatternBlocks.startPage('Register an aircraft'), 'start')
+      .addCustomStep(async ({ journeyRunner }) => {
+        await journeyRunner.fillAndContinue({ 'Manufacturer': 'Cessna' });
+        await journeyRunner.verifyHeading('Aircraft details saved');
+      })
+      .execute();
+  });
+
+  test('should fail a block whose button is not in the tab order', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    await journeyRunner.startJourney(`${FIXTURE_PATH}?unreachable=start`);
+
+    const error = await GovUKPatternBlocks.startPage('Register an aircraft')({ page, journeyRunner, componentHelper })
+      .catch(error => error);
+    expect(error).toBeInstanceOf(KeyboardAccessError);
+    expect(error.message).toContain('Start button could not be reached with Tab');
+  });
+
+  test('should fail to fill a field that is not in the tab order', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    await journeyRunner.startJourney(`${FIXTURE_PATH}?unreachable=field`);
+    await GovUKPatternBlocks.startPage('Register an aircraft')({ page, journeyRunner, componentHelper });
+
+    const error = await journeyRunner.fillStep({ 'Manufacturer': 'Cessna' }).catch(error => error);
+    expect(error).toBeInstanceOf(KeyboardAccessError);
+    expect(error.message).toMatch(/labelled "Manufacturer" could not be reached with Tab/);
+  });
+
+  test('should fail to continue when the Continue button is not in the tab order', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    await journeyRunner.startJourney(`${FIXTURE_PATH}?unreachable=continue`);
+    await GovUKPatternBlocks.startPage('Register an aircraft')({ page, journeyRunner, componentHelper });
+    await journeyRunner.fillStep({ 'Manufacturer': 'Cessna' });
+
+    const error = await journeyRunner.continue().catch(error => error);
+    expect(error).toBeInstanceOf(KeyboardAccessError);
+    expect(error.message).toContain('Continue button could not be reached with Tab');
+  });
+});
+
+/**
+ * A client-side start page and question page - the control named by
+ * `unreachable` ('start', 'field' or 'continue') has tabindex="-1"
+ */
+function keyboardAccessPage(unreachable: string): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head><meta charset="UTF-8"><title>Register an aircraft</title></head>
+    <body class="govuk-template__body">
+      <main class="govuk-main-wrapper" id="main-content"></main>
+      <script>
+        const unreachable = ${JSON.stringify(unreachable)};
+        const main = document.getElementById('main-content');
+        const tabindex = (control) => unreachable === control ? ' tabindex="-1"' : '';
+
+        function show(html) {
+          history.pushState({}, '', location.pathname + location.search);
+          main.innerHTML = html;
+          main.querySelector('h1').focus();
+        }
+
+        function showStart() {
+          show('<h1 class="govuk-heading-l" tabindex="-1">Register an aircraft</h1>' +
+            '<button class="govuk-button govuk-button--start"' + tabindex('start') + ' onclick="showDetails()">Start now</button>');
+        }
+
+        function showDetails() {
+          show('<h1 class="govuk-heading-l" tabindex="-1">Enter aircraft details</h1>' +
+            '<div class="govuk-form-group"><label class="govuk-label" for="manufacturer">Manufacturer</label>' +
+            '<input class="govuk-input" id="manufacturer" type="text"' + tabindex('field') + '></div>' +
+            '<button class="govuk-button"' + tabindex('continue') + ' onclick="showSaved()">Continue</button>');
+        }
+
+        function showSaved() {
+          show('<h1 class="govuk-heading-l" tabindex="-1">Aircraft details saved</h1>');
+        }
+
+        showStart();
+      </script>
+    </body>
+    </html>
+  `;
+}
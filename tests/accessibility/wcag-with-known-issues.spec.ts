@@ -1,73 +1,37 @@
 import { test, expect } from '@playwright/test';
 import { AccessibilityHelper } from '../../helpers/AccessibilityHelper';
+import { AccessibilityBaseline } from '../../helpers/AccessibilityBaseline';
 
 /**
  * Accessibility Tests with Known Issues Documented
- * This version allows known violations while preventing new ones
+ * Known violations live in test-data/a11y-baseline.json - new ones fail, and
+ * fixed ones are flagged so `npm run a11y:baseline` can tighten the baseline
  */
 test.describe('WCAG 2.1 AA Compliance (With Known Issues) @a11y', () => {
-  
-  const KNOWN_ISSUES = {
-    'document-title': {
-      description: 'Missing page titles',
-      severity: 'serious',
-      jiraTicket: 'TODO: Create ticket',
-      fixRequired: true
-    }
-  };
 
-  test('should only have known accessibility violations on home page', async ({ page }) => {
+  const baseline = AccessibilityBaseline.load();
+
+  test('should only have known accessibility violations on home page', async ({ page }, testInfo) => {
     const a11y = new AccessibilityHelper(page);
     
     await page.goto('/');
     const results = await a11y.scanWCAG_AA();
     
-    // Filter out known issues
-    const unknownViolations = results.violations.filter(
-      v => !KNOWN_ISSUES[v.id]
-    );
-    
-    // Log known issues
-    const knownViolations = results.violations.filter(
-      v => KNOWN_ISSUES[v.id]
-    );
-    
-    if (knownViolations.length > 0) {
-      console.log('Known accessibility issues found:');
-      knownViolations.forEach(v => {
-        const issue = KNOWN_ISSUES[v.id];
-        console.log(`  - ${v.id}: ${issue.description} (${issue.severity})`);
-        console.log(`    Ticket: ${issue.jiraTicket}`);
-      });
-    }
+    const comparison = baseline.check(testInfo, AccessibilityBaseline.pageKey(page.url()), AccessibilityBaseline.violationsFrom(results));
     
     // Fail only on NEW violations
-    expect(unknownViolations).toEqual([]);
+    expect(comparison.new, AccessibilityBaseline.describe(comparison)).toEqual([]);
   });
 
-  test('should only have known violations on journey pages', async ({ page }) => {
+  test('should only have known violations on journey pages', async ({ page }, testInfo) => {
     const a11y = new AccessibilityHelper(page);
     
     await page.goto('/civil-aviation-authority/register-a-plane/apply');
     const results = await a11y.scanWCAG_AA();
     
-    const unknownViolations = results.violations.filter(
-      v => !KNOWN_ISSUES[v.id]
-    );
-    
-    const knownViolations = results.violations.filter(
-      v => KNOWN_ISSUES[v.id]
-    );
-    
-    if (knownViolations.length > 0) {
-      console.log('Known accessibility issues on journey page:');
-      knownViolations.forEach(v => {
-        const issue = KNOWN_ISSUES[v.id];
-        console.log(`  - ${v.id}: ${issue.description}`);
-      });
-    }
+    const comparison = baseline.check(testInfo, AccessibilityBaseline.pageKey(page.url()), AccessibilityBaseline.violationsFrom(results));
     
-    expect(unknownViolations).toEqual([]);
+    expect(comparison.new, AccessibilityBaseline.describe(comparison)).toEqual([]);
   });
 
   test('should have proper form labels (no known issues)', async ({ page }) => {
@@ -7,11 +7,13 @@ import { AdaptiveBlocks } from '../../helpers/AdaptiveBlocks';
  * apply-provisional-driving-licence - Generated Tests
  * 
  * Generated from journey: apply-provisional-driving-licence
- * Generated at: 2025-12-15T12:45:59.881Z
+ * Story generated at: 2025-12-15T12:45:50.317Z
+ * Regenerate with: npm run gen:tests -- --journey=apply-provisional-driving-licence
  * 
  * Journey Structure:
  * - Pages: 15
  * - Components: 50
+ * - Component Types: heading, paragraph, insetText, radios, textInput, checkboxes, warningText
  * - User Stories: 1
  * - Test Scenarios: 1
  */
@@ -161,14 +163,28 @@ test.describe('apply-provisional-driving-licence', () => {
 
   test.describe('Validation Tests', () => {
 
-    test('should validate required fields @journey @validation', async ({
+    test('should show errors when eligibility-age is submitted empty @journey @validation', async ({
       page,
       journeyRunner,
       componentHelper
     }) => {
-      await journeyRunner.startJourney(JOURNEY_PATH);
-      // TODO: Navigate to form page and submit without filling
-      // TODO: Use AdaptiveBlocks.smartVerifyErrors(['Error message'])
+      const builder = new JourneyBuilder(page, journeyRunner, componentHelper);
+
+      await builder
+        // Start journey
+        .addCustomStep(async ({ journeyRunner }) => {
+          await journeyRunner.startJourney(JOURNEY_PATH);
+          await journeyRunner.verifyHeading('Start your application');
+          await journeyRunner.continue();
+        })
+        // eligibility-age - submit without filling
+        .addCustomStep(async ({ journeyRunner }) => {
+          await journeyRunner.verifyHeading('Confirm your age');
+          await journeyRunner.continue();
+        })
+        .addStep(AdaptiveBlocks.smartVerifyErrors([]))
+
+        .execute();
     });
 
   });
@@ -0,0 +1,130 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { GovUKPatternBlocks } from '../../helpers/GovUKPatternBlocks';
+
+/**
+ * Add Another Pattern Tests
+ * Runs the add-another blocks against an isolated page, served by a route
+ * handler, that adds, changes and removes aircraft client-side - with and
+ * without a removal confirmation page
+ */
+test.describe('Add another pattern @journey', () => {
+  const FIXTURE_PATH = '/test-fixtures/add-another';
+
+  for (const confirmRemoval of [true, false]) {
+    test(`should add, change and remove items ${confirmRemoval ? 'with' : 'without'} a removal confirmation page`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      await page.route(`**${FIXTURE_PATH}`, route => route.fulfill({ contentType: 'text/html', body: addAnotherPage(confirmRemoval) }));
+
+      await new JourneyBuilder(page, journeyRunner, componentHelper)
+        .addCustomStep(async ({ journeyRunner }) => {
+          await journeyRunner.startJourney(FIXTURE_PATH);
+        })
+        .addStep(GovUKPatternBlocks.addItems([
+          { fields: { 'Aircraft name': 'Cessna 172' }, summary: 'Cessna 172' },
+          { fields: { 'Aircraft name': 'Piper PA-28' }, summary: 'Piper PA-28' },
+          { fields: { 'Aircraft name': 'Robin DR400' }, summary: 'Robin DR400' }
+        ]), 'add three aircraft')
+        .addStep(GovUKPatternBlocks.changeItem('Piper PA-28', { 'Aircraft name': 'Piper PA-28 Warrior' }), 'change the second')
+        .addStep(GovUKPatternBlocks.removeItem('Cessna 172'), 'remove the first')
+        .addStep(GovUKPatternBlocks.verifyAddedItems(['Piper PA-28 Warrior', 'Robin DR400']), 'verify the list')
+        .addStep(GovUKPatternBlocks.addAnother('No'), 'finish adding')
+        .addCustomStep(async ({ journeyRunner }) => {
+          await journeyRunner.verifyHeading('Aircraft added');
+        })
+        .execute();
+    });
+  }
+});
+
+/**
+ * A client-side add-another loop: item page, summary list with a Yes/No
+ * "add another" question, and optionally an "Are you sure" removal page
+ */
+function addAnotherPage(confirmRemoval: boolean): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head><meta charset="UTF-8"><title>Add aircraft</title></head>
+    <body class="govuk-template__body">
+      <main class="govuk-main-wrapper" id="main-content"></main>
+      <script>
+        const confirmRemoval = ${confirmRemoval};
+        const main = document.getElementById('main-content');
+        const items = [];
+        let editing = -1;
+
+        function show(view, arg) {
+          history.pushState({}, '', '#' + view);
+          main.innerHTML = views[view](arg);
+        }
+
+        function yesNo(legend) {
+          return '<div class="govuk-form-group"><fieldset class="govuk-fieldset"><legend class="govuk-fieldset__legend">' + legend + '</legend>' +
+            '<div class="govuk-radios"><input type="radio" id="yes" name="answer" value="Yes"><label for="yes">Yes</label>' +
+            '<input type="radio" id="no" name="answer" value="No"><label for="no">No</label></div></fieldset></div>';
+        }
+
+        const views = {
+          item: () => '<h1 class="govuk-heading-l">' + (editing === -1 ? 'Add an aircraft' : 'Change an aircraft') + '</h1>' +
+            '<div class="govuk-form-group"><label class="govuk-label" for="name">Aircraft name</label>' +
+            '<input class="govuk-input" id="name" type="text" value="' + (editing === -1 ? '' : items[editing]) + '"></div>' +
+            '<button class="govuk-button" onclick="saveItem()">Continue</button>',
+          summary: () => '<h1 class="govuk-heading-l">You have added ' + items.length + ' aircraft</h1>' +
+            '<dl class="govuk-summary-list">' + items.map((item, index) =>
+              '<div class="govuk-summary-list__row"><dt class="govuk-summary-list__key">' + item + '</dt>' +
+              '<dd class="govuk-summary-list__actions">' +
+              '<a href="#" onclick="changeItem(' + index + '); return false">Change<span class="govuk-visually-hidden"> ' + item + '</span></a> ' +
+              '<a href="#" onclick="removeItem(' + index + '); return false">Remove<span class="govuk-visually-hidden"> ' + item + '</span></a>' +
+              '</dd></div>').join('') + '</dl>' +
+            yesNo('Do you need to add another aircraft?') +
+            '<button class="govuk-button" onclick="answerAddAnother()">Continue</button>',
+          confirm: (index) => '<h1 class="govuk-heading-l">Remove ' + items[index] + '</h1>' +
+            yesNo('Are you sure you want to remove ' + items[index] + '?') +
+            '<button class="govuk-button" onclick="confirmRemove(' + index + ')">Continue</button>',
+          done: () => '<h1 class="govuk-heading-l">Aircraft added</h1>'
+        };
+
+        function answer() {
+          return document.querySelector('input[name="answer"]:checked')?.value;
+        }
+
+        function saveItem() {
+          const name = document.getElementById('name').value;
+          if (editing === -1) { items.push(name); } else { items[editing] = name; }
+          editing = -1;
+          show('summary');
+        }
+
+        function changeItem(index) {
+          editing = index;
+          show('item');
+        }
+
+        function removeItem(index) {
+          if (confirmRemoval) {
+            show('confirm', index);
+          } else {
+            items.splice(index, 1);
+            show('summary');
+          }
+        }
+
+        function confirmRemove(index) {
+          if (answer() === 'Yes') { items.splice(index, 1); }
+          show('summary');
+        }
+
+        function answerAddAnother() {
+          show(answer() === 'Yes' ? 'item' : 'done');
+        }
+
+        show('item');
+      </script>
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,141 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { GovUKPatternBlocks } from '../../helpers/GovUKPatternBlocks';
+import { AdaptiveBlocks } from '../../helpers/AdaptiveBlocks';
+import { CheckAnswersVerifier } from '../../helpers/CheckAnswersVerifier';
+
+/**
+ * Register a Plane - Check Your Answers Round Trip
+ * Follows every Change link and checks the journey comes straight back with the answer updated
+ */
+test.describe('Register a Plane check answers round trip @journey', () => {
+  test('should change each answer from check answers @regression', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    const definition = DataDrivenJourney.load('register-a-plane');
+    const steps = DataDrivenJourney.buildSteps(definition);
+
+    // Everything up to, but not including, the check answers and confirmation steps
+    await new JourneyBuilder(page, journeyRunner, componentHelper)
+      .addSteps(steps.slice(0, -2))
+      .addStep(async ({ journeyRunner }) => {
+        await journeyRunner.verifyHeading('Check your answers', { exact: false });
+      })
+      // The applicant type radio is recorded under its legend, and matched to its summary row by its answer
+      .addStep(AdaptiveBlocks.verifyEnteredAnswers())
+      .addStep(GovUKPatternBlocks.verifyChangeLinks({
+        'Manufacturer': 'Piper',
+        'Model': 'PA-28'
+      }))
+      .execute();
+  });
+});
+
+/**
+ * Runs the round trip against an isolated two-question journey, served by a
+ * route handler, whose Change links return straight to check answers
+ */
+test.describe('Check answers runner state @journey', () => {
+  const FIXTURE_PATH = '/test-fixtures/check-answers';
+
+  test('should record changed answers against the step each question was answered on', async ({
+    page,
+    journeyRunner
+  }) => {
+    await page.route(`**${FIXTURE_PATH}`, route => route.fulfill({ contentType: 'text/html', body: checkAnswersJourneyPage() }));
+
+    await journeyRunner.startJourney(FIXTURE_PATH);
+    await journeyRunner.fillAndContinue({ 'Manufacturer': 'Cessna', 'Model': '172' });
+    await journeyRunner.fillAndContinue({ 'Full name': 'Jane Smith' });
+    await journeyRunner.verifyHeading('Check your answers');
+
+    await new CheckAnswersVerifier(page, journeyRunner).verifyAll({
+      'Manufacturer': 'Piper',
+      'Model': 'PA-28',
+      'Full name': 'Amelia Earhart'
+    });
+
+    expect(journeyRunner.getCurrentStep()).toBe(2);
+    expect(journeyRunner.getEnteredValues()).toEqual([
+      {
+        step: 0,
+        heading: 'Enter aircraft details',
+        fields: [
+          { label: 'Manufacturer', kind: 'text', value: 'Piper' },
+          { label: 'Model', kind: 'text', value: 'PA-28' }
+        ]
+      },
+      { step: 1, heading: 'Who owns the aircraft?', fields: [{ label: 'Full name', kind: 'text', value: 'Amelia Earhart' }] }
+    ]);
+  });
+});
+
+/**
+ * A client-side journey of two question pages and check answers - pages
+ * reached from a Change link continue back to check answers
+ */
+function checkAnswersJourneyPage(): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head><meta charset="UTF-8"><title>Register an aircraft</title></head>
+    <body class="govuk-template__body">
+      <main class="govuk-main-wrapper" id="main-content"></main>
+      <script>
+        const questions = [
+          { heading: 'Enter aircraft details', fields: [['manufacturer', 'Manufacturer'], ['model', 'Model']] },
+          { heading: 'Who owns the aircraft?', fields: [['full-name', 'Full name']] }
+        ];
+        const answers = {};
+        const main = document.getElementById('main-content');
+        let changing = false;
+
+        function show(html) {
+          history.pushState({}, '', location.pathname);
+          main.innerHTML = html;
+        }
+
+        function showQuestion(index) {
+          const question = questions[index];
+          show('<h1 class="govuk-heading-l">' + question.heading + '</h1>' + question.fields.map(([id, label]) =>
+            '<div class="govuk-form-group"><label class="govuk-label" for="' + id + '">' + label + '</label>' +
+            '<input class="govuk-input" id="' + id + '" type="text" value="' + (answers[label] || '') + '"></div>').join('') +
+            '<button class="govuk-button" onclick="save(' + index + ')">Continue</button>');
+        }
+
+        function save(index) {
+          for (const [id, label] of questions[index].fields) {
+            answers[label] = document.getElementById(id).value;
+          }
+          if (changing || index === questions.length - 1) {
+            changing = false;
+            showCheckAnswers();
+          } else {
+            showQuestion(index + 1);
+          }
+        }
+
+        function change(index) {
+          changing = true;
+          showQuestion(index);
+        }
+
+        function showCheckAnswers() {
+          show('<h1 class="govuk-heading-l">Check your answers</h1><dl class="govuk-summary-list">' +
+            questions.flatMap((question, index) => question.fields.map(([, label]) =>
+              '<div class="govuk-summary-list__row"><dt class="govuk-summary-list__key">' + label + '</dt>' +
+              '<dd class="govuk-summary-list__value">' + answers[label] + '</dd>' +
+              '<dd class="govuk-summary-list__actions"><a class="govuk-link" href="#" onclick="change(' + index + '); return false">' +
+              'Change<span class="govuk-visually-hidden"> ' + label + '</span></a></dd></div>')).join('') +
+            '</dl><button class="govuk-button">Accept and send</button>');
+        }
+
+        showQuestion(0);
+      </script>
+    </body>
+    </html>
+  `;
+}
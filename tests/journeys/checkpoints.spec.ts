@@ -0,0 +1,27 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { AdaptiveBlocks } from '../../helpers/AdaptiveBlocks';
+
+/**
+ * Register a Plane - Checkpointed Journey Tests
+ * Starts at check answers from a saved checkpoint instead of replaying every earlier page
+ */
+test.describe('Register a Plane checkpoints @journey', () => {
+  const CHECKPOINT = 'register-a-plane:check-answers';
+
+  test('should submit from the check answers checkpoint @regression', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    const steps = DataDrivenJourney.buildSteps(DataDrivenJourney.load('register-a-plane'));
+
+    await new JourneyBuilder(page, journeyRunner, componentHelper)
+      .addSteps(steps.slice(0, -2))
+      .checkpoint(CHECKPOINT)
+      .addStep(AdaptiveBlocks.verifyEnteredAnswers(), 'verify entered answers')
+      .addSteps(steps.slice(-2))
+      .executeFrom(CHECKPOINT);
+  });
+});
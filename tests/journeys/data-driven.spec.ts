@@ -0,0 +1,28 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { JourneyCoverage, JourneyGraph } from '../../helpers/JourneyGraph';
+
+/**
+ * Data-Driven Journey Tests
+ * One test per route through each journey in test-data/journeys.json - add a journey there to test it
+ *
+ * Completed routes are recorded for `npm run journey:coverage`.
+ */
+test.describe('Data-driven journeys @journey', () => {
+  for (const definition of DataDrivenJourney.loadAll()) {
+    for (const route of JourneyGraph.fromDefinition(definition).enumerateRoutes()) {
+      test(`should complete ${definition.name} via ${route.id} @regression`, async ({
+        page,
+        journeyRunner,
+        componentHelper
+      }, testInfo) => {
+        await new JourneyBuilder(page, journeyRunner, componentHelper)
+          .addSteps(DataDrivenJourney.buildRouteSteps(definition, route))
+          .execute();
+
+        JourneyCoverage.save(testInfo, definition.id, route);
+      });
+    }
+  }
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { JourneyGraph } from '../../helpers/JourneyGraph';
+import { JourneyDefinition } from '../shared/validation/schemas';
+
+/**
+ * Journey Graph Tests
+ * Transitions and routes built from a journey definition - no browser needed
+ */
+test.describe('Journey graph @journey', () => {
+  const definition: JourneyDefinition = {
+    id: 'branching',
+    name: 'Branching journey',
+    path: '/branching/apply',
+    steps: [
+      {
+        name: 'applicant-type',
+        heading: 'Who is registering the aircraft?',
+        fields: [{ type: 'radios', name: 'applicant-type', options: ['An individual', 'A company or organisation'] }],
+        next: { 'An individual': 'aircraft-details', 'A company or organisation': 'company-details' }
+      },
+      { name: 'company-details', heading: 'Company details' },
+      { name: 'aircraft-details', heading: 'Enter aircraft details' },
+      { name: 'check-answers', heading: 'Check your answers' }
+    ]
+  };
+
+  test('should only send each option to the step next names for it', () => {
+    const keys = JourneyGraph.fromDefinition(definition).getTransitions().map(t => JourneyGraph.transitionKey(t));
+
+    expect(keys).toContain('applicant-type --[applicant-type=An individual]--> aircraft-details');
+    expect(keys).toContain('applicant-type --[applicant-type=A company or organisation]--> company-details');
+    expect(keys).not.toContain('applicant-type --[applicant-type=An individual]--> company-details');
+  });
+
+  test('should enumerate one route per option, each ending at the last step', () => {
+    const routes = JourneyGraph.fromDefinition(definition).enumerateRoutes();
+
+    expect(routes.map(route => route.pages)).toEqual([
+      ['applicant-type', 'aircraft-details', 'check-answers'],
+      ['applicant-type', 'company-details', 'aircraft-details', 'check-answers']
+    ]);
+  });
+
+  test('should leave out routes that can only go on by revisiting a page', () => {
+    const graph = JourneyGraph.fromPageSequences([
+      ['start', 'details', 'confirmation'],
+      ['start', 'loop', 'start']
+    ]);
+
+    expect(graph.enumerateRoutes().map(route => route.pages)).toEqual([['start', 'details', 'confirmation']]);
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import {
+  CHECK_ANSWERS_PAGE,
+  CONFIRMATION_PAGE,
+  JourneyTemplate,
+  JourneyTemplates
+} from '../../helpers/JourneyTemplates';
+
+/**
+ * Journey Template Registry Tests
+ * Registering templates and building their steps - no browser needed
+ */
+test.describe('Journey template registry @journey', () => {
+  const template = (id: string): JourneyTemplate => ({
+    id,
+    startPath: '/registry/apply',
+    questions: [
+      { id: 'applicant-type', heading: 'Who is registering the aircraft?', answers: { 'An individual': 'An individual' } },
+      { id: 'aircraft-details', heading: 'Enter aircraft details', answers: { 'Manufacturer': 'Cessna' } }
+    ],
+    checkAnswers: { heading: 'Check your answers before submitting' },
+    confirmation: { heading: 'Application submitted' }
+  });
+
+  test('should refuse a template with two questions of the same id', () => {
+    const duplicated = template('registry-duplicate-questions');
+    duplicated.questions.push({ id: 'applicant-type', heading: 'Who is applying?', answers: {} });
+
+    expect(() => JourneyTemplates.register(duplicated))
+      .toThrow('Journey template "registry-duplicate-questions" has more than one question with id "applicant-type"');
+    expect(JourneyTemplates.has('registry-duplicate-questions')).toBe(false);
+  });
+
+  test('should refuse to register a journey id twice unless replacing it', () => {
+    JourneyTemplates.register(template('registry-twice'));
+
+    expect(() => JourneyTemplates.register(template('registry-twice')))
+      .toThrow('Journey template "registry-twice" is already registered');
+    expect(() => JourneyTemplates.register(template('registry-twice'), { replace: true })).not.toThrow();
+    expect(JourneyTemplates.ids()).toContain('registry-twice');
+  });
+
+  test('should build one named step per page', () => {
+    const steps = JourneyTemplates.buildSteps(template('registry-steps'), { startPath: '/registry/other' });
+
+    expect(steps.map(step => step.name)).toEqual([
+      'start /registry/other',
+      'applicant-type',
+      'aircraft-details',
+      CHECK_ANSWERS_PAGE,
+      CONFIRMATION_PAGE
+    ]);
+  });
+
+  test('should reject overrides for pages the template does not have', () => {
+    expect(() => JourneyTemplates.buildSteps(template('registry-overrides'), {
+      headings: { [CONFIRMATION_PAGE]: 'Aircraft registered', 'contact-details': 'Your contact details' },
+      answers: { 'owner-details': { 'Full name': 'Amelia Earhart' } }
+    })).toThrow('Journey template "registry-overrides" has no page(s) "contact-details", "owner-details" to override');
+  });
+
+  test('should name the registered templates when asked for an unknown one', () => {
+    JourneyTemplates.register(template('registry-known'), { replace: true });
+
+    expect(() => JourneyTemplates.get('registry-unknown')).toThrow(/"registry-unknown" is not registered\. Available: .*registry-known/);
+  });
+});
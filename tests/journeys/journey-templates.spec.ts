@@ -0,0 +1,56 @@
+import { test } from '../../fixtures/base.fixture';
+import { JourneyTemplates } from '../../helpers/JourneyTemplates';
+import { TestDataFactory } from '../../helpers/TestDataFactory';
+
+/**
+ * Register a Plane - Journey Template Tests
+ * Runs the journey from a registered template, with per-test overrides
+ */
+JourneyTemplates.register({
+  id: 'register-a-plane',
+  startPath: '/civil-aviation-authority/register-a-plane/apply',
+  data: () => ({
+    aircraftData: TestDataFactory.generateAircraftData(),
+    contactData: TestDataFactory.generateContactDetails()
+  }),
+  questions: [
+    { id: 'applicant-type', heading: 'Who is registering the aircraft?', answers: { 'An individual': 'An individual' } },
+    {
+      id: 'aircraft-details',
+      heading: 'Enter aircraft details',
+      answers: ({ aircraftData }) => ({
+        'Manufacturer': aircraftData.manufacturer,
+        'Model': aircraftData.model,
+        'Serial number': aircraftData.serialNumber
+      })
+    },
+    {
+      id: 'contact-details',
+      heading: 'Your contact details',
+      answers: ({ contactData }) => ({
+        'Full name': contactData.fullName,
+        'Email address': contactData.email,
+        'Telephone number': contactData.phone
+      })
+    }
+  ],
+  checkAnswers: {
+    heading: 'Check your answers before submitting',
+    summary: ({ contactData }) => ({ 'Full name': contactData.fullName })
+  },
+  confirmation: { heading: 'Application submitted' }
+}, { replace: true });
+
+test.describe('Register a Plane journey templates @journey', () => {
+
+  test('should complete the journey from its template @smoke', async ({ page, journeyRunner, componentHelper }) => {
+    await JourneyTemplates.build('register-a-plane', page, journeyRunner, componentHelper).execute();
+  });
+
+  test('should complete the journey with overridden answers @regression', async ({ page, journeyRunner, componentHelper }) => {
+    await JourneyTemplates.build('register-a-plane', page, journeyRunner, componentHelper, {
+      answers: { 'aircraft-details': { 'Manufacturer': 'Piper', 'Model': 'PA-28' } },
+      data: { contactData: { ...TestDataFactory.generateContactDetails(), fullName: 'Amelia Earhart' } }
+    }).execute();
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { DataDrivenJourney } from '../../helpers/DataDrivenJourney';
+import { NegativePaths } from '../../helpers/NegativePaths';
+
+/**
+ * Negative Path Tests
+ * Submits every question page of each journey in test-data/journeys.json empty
+ * and with invalid inputs, checking the errors follow GOV.UK conventions
+ */
+test.describe('Journey negative paths @journey @validation', () => {
+  for (const definition of DataDrivenJourney.loadAll()) {
+    test(`should show conventional errors on every page of ${definition.name} @regression`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      const builder = new JourneyBuilder(page, journeyRunner, componentHelper);
+      // The prototype's pages have no <title>, so there is no "Error: " prefix to check
+      await NegativePaths.addTo(builder, definition, { checkTitle: false }).execute();
+    });
+  }
+});
+
+/**
+ * Checks the convention checks themselves against an isolated error page,
+ * served by a route handler, that breaks each convention
+ */
+test.describe('Error conventions @validation', () => {
+  const FIXTURE_PATH = '/test-fixtures/error-conventions';
+
+  test.beforeEach(async ({ page }) => {
+    await page.route(url => url.pathname === FIXTURE_PATH, route => route.fulfill({
+      contentType: 'text/html',
+      body: errorPage(new URL(route.request().url()).searchParams.has('conforming'))
+    }));
+  });
+
+  test('should report every convention the errors break', async ({ page, journeyRunner }) => {
+    await journeyRunner.startJourney(FIXTURE_PATH);
+
+    expect(await NegativePaths.checkConventions(page, await NegativePaths.captureErrors(page))).toEqual([
+      'page title "Enter aircraft details" does not start with "Error: "',
+      'summary says "Enter the model" but the inline error says "Enter a model"',
+      'summary link "Enter the serial number" points to #serial-number, which is not on the page',
+      '"Enter the year built" has no inline error next to its field',
+      'summary link "Enter the year built" does not move focus to #year-built',
+      'inline error "Enter a model" is missing from the error summary',
+      'inline error "Enter the registration mark" is missing from the error summary'
+    ]);
+  });
+
+  test('should leave the title alone when checkTitle is off', async ({ page, journeyRunner }) => {
+    await journeyRunner.startJourney(FIXTURE_PATH);
+
+    const problems = await NegativePaths.checkConventions(page, await NegativePaths.captureErrors(page), { checkTitle: false });
+    expect(problems.some(problem => problem.startsWith('page title'))).toBe(false);
+  });
+
+  test('should find nothing wrong with conventional errors', async ({ page, journeyRunner }) => {
+    await journeyRunner.startJourney(`${FIXTURE_PATH}?conforming`);
+
+    const report = await NegativePaths.captureErrors(page);
+    expect(report.title).toBe('Error: Enter aircraft details');
+    expect(await NegativePaths.checkConventions(page, report)).toEqual([]);
+  });
+});
+
+/**
+ * A question page showing errors - conventional ones, or ones that break
+ * each GOV.UK convention: no "Error: " title, a summary message that differs
+ * from its inline error, a link to a missing field, a field with no inline
+ * error whose link does not move focus, and an inline error not in the summary
+ */
+function errorPage(conforming: boolean): string {
+  const field = (id: string, label: string, inline?: string) =>
+    `<div class="govuk-form-group${inline ? ' govuk-form-group--error' : ''}"><label class="govuk-label" for="${id}">${label}</label>` +
+    (inline ? `<p class="govuk-error-message"><span class="govuk-visually-hidden">Error:</span> ${inline}</p>` : '') +
+    `<input class="govuk-input" id="${id}" type="text"></div>`;
+  const link = (href: string, text: string, focus = true) =>
+    `<li><a href="#${href}"${focus ? '' : ' data-no-focus'}>${text}</a></li>`;
+
+  const summary = conforming
+    ? link('manufacturer', 'Enter the manufacturer')
+    : link('manufacturer', 'Enter the manufacturer') +
+      link('model', 'Enter the model') +
+      link('serial-number', 'Enter the serial number') +
+      link('year-built', 'Enter the year built', false);
+  const fields = conforming
+    ? field('manufacturer', 'Manufacturer', 'Enter the manufacturer')
+    : field('manufacturer', 'Manufacturer', 'Enter the manufacturer') +
+      field('model', 'Model', 'Enter a model') +
+      field('year-built', 'Year built') +
+      field('registration-mark', 'Registration mark', 'Enter the registration mark');
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head><meta charset="UTF-8"><title>${conforming ? 'Error: ' : ''}Enter aircraft details</title></head>
+    <body class="govuk-template__body">
+      <main class="govuk-main-wrapper" id="main-content">
+        <div class="govuk-error-summary" data-module="govuk-error-summary">
+          <h2 class="govuk-error-summary__title">There is a problem</h2>
+          <ul class="govuk-list govuk-error-summary__list">${summary}</ul>
+        </div>
+        <h1 class="govuk-heading-l">Enter aircraft details</h1>
+        ${fields}
+        <button class="govuk-button">Continue</button>
+      </main>
+      <script>
+        // As govuk-frontend does, summary links move focus to their field
+        document.querySelectorAll('.govuk-error-summary a').forEach(link => link.addEventListener('click', event => {
+          event.preventDefault();
+          if (!link.hasAttribute('data-no-focus')) {
+            document.getElementById(link.getAttribute('href').slice(1))?.focus();
+          }
+        }));
+      </script>
+    </body>
+    </html>
+  `;
+}
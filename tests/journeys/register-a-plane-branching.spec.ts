@@ -0,0 +1,34 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { JourneyStepBlocks } from '../../helpers/JourneyStepBlocks';
+
+/**
+ * Register a Plane - Branching Journey Tests
+ * One builder describes both applicant type paths; each test picks a path through shared data
+ */
+test.describe('Register a Plane branching @journey', () => {
+  const JOURNEY_PATH = '/civil-aviation-authority/register-a-plane/apply';
+
+  for (const applicantType of ['individual', 'organisation']) {
+    test(`should complete the ${applicantType} path @regression`, async ({
+      page,
+      journeyRunner,
+      componentHelper
+    }) => {
+      const builder = new JourneyBuilder(page, journeyRunner, componentHelper)
+        .setData('applicantType', applicantType)
+        .addStep(JourneyStepBlocks.startJourney(JOURNEY_PATH))
+        .branch('applicant-type', branch => branch
+          .when({ applicantType: 'individual' }, JourneyStepBlocks.selectIndividualApplicant(), 'individual')
+          .when({ applicantType: 'organisation' }, JourneyStepBlocks.selectOrganisationApplicant(), 'organisation'))
+        .addStep(JourneyStepBlocks.fillAircraftDetails())
+        .addStep(JourneyStepBlocks.fillContactDetails())
+        .addStep(JourneyStepBlocks.checkYourAnswersAndSubmit())
+        .addStep(JourneyStepBlocks.verifyConfirmation());
+
+      await builder.execute();
+
+      expect(builder.getBranchPaths()).toEqual({ 'applicant-type': applicantType });
+    });
+  }
+});
@@ -0,0 +1,61 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { SaveAndReturn } from '../../helpers/SaveAndReturn';
+import { PatternDetector } from '../../helpers/PatternDetector';
+import { TestDataFactory } from '../../helpers/TestDataFactory';
+
+/**
+ * Register a Plane - Save and Return Tests
+ * Stops part way, resumes in a fresh browser context and checks every answer survived
+ */
+test.describe('Register a Plane save and return @journey', () => {
+  const JOURNEY_PATH = '/civil-aviation-authority/register-a-plane/apply';
+
+  test('should restore answers after resuming in a new browser context @regression', async ({
+    page,
+    browser,
+    baseURL,
+    journeyRunner
+  }, testInfo) => {
+    const aircraft = TestDataFactory.generateAircraftData();
+    const contact = TestDataFactory.generateContactDetails();
+    const saveAndReturn = new SaveAndReturn(page, journeyRunner);
+
+    await journeyRunner.startJourney(JOURNEY_PATH);
+    await saveAndReturn.answerPage({ 'An individual': 'An individual' });
+    await saveAndReturn.answerPage({
+      'Manufacturer': aircraft.manufacturer,
+      'Model': aircraft.model,
+      'Serial number': aircraft.serialNumber
+    });
+
+    const savedPath = testInfo.outputPath(SaveAndReturn.FILE_NAME);
+    await saveAndReturn.save(savedPath);
+    await page.context().close();
+
+    const saved = SaveAndReturn.load(savedPath);
+    const resumed = await SaveAndReturn.resume(browser, saved, { baseURL });
+
+    try {
+      // Going back to the first page also checks the applicant type radio is still selected
+      await SaveAndReturn.verifyRestored(resumed, saved);
+
+      await resumed.journeyRunner.verifyHeading('Your contact details');
+      await resumed.journeyRunner.fillAndContinue({
+        'Full name': contact.fullName,
+        'Email address': contact.email,
+        'Telephone number': contact.phone
+      });
+
+      await resumed.journeyRunner.verifyHeading('Check your answers', { exact: false });
+      await SaveAndReturn.verifyCheckAnswers(resumed.journeyRunner, {
+        'Manufacturer': aircraft.manufacturer,
+        'Model': aircraft.model,
+        'Serial number': aircraft.serialNumber
+      });
+      const summary = await new PatternDetector(resumed.page).getSummaryData();
+      expect(Object.values(summary), 'applicant type on check answers').toContain('An individual');
+    } finally {
+      await resumed.context.close();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import { EnteredStep, SummaryRows } from '../../helpers/SummaryRows';
+
+/**
+ * Summary Rows Tests
+ * Expected check-answers rows derived from entered values, and diffed
+ * against the rows shown - no browser needed
+ */
+test.describe('Summary rows @journey', () => {
+  const entered: EnteredStep[] = [
+    {
+      step: 0,
+      heading: 'Who is registering the aircraft?',
+      fields: [{ label: 'Who is registering the aircraft?', kind: 'radios', value: 'An individual' }]
+    },
+    {
+      step: 1,
+      heading: 'Enter aircraft details',
+      fields: [
+        { label: 'Manufacturer', kind: 'text', value: 'Cessna' },
+        { label: 'Date of manufacture', kind: 'date', value: { day: '02', month: '03', year: '1991' } }
+      ]
+    }
+  ];
+
+  test('should match a radio recorded under its legend to the row showing its answer', () => {
+    const diff = SummaryRows.diff(SummaryRows.derive(entered), {
+      'Applicant type': 'An individual',
+      'Manufacturer': 'Cessna',
+      'Date of manufacture': '2 March 1991'
+    });
+
+    expect(diff.missing).toEqual([]);
+    expect(diff.mismatched).toEqual([]);
+    expect(diff.unexpected).toEqual([]);
+    expect(diff.matchedByValue).toEqual([{ key: 'Who is registering the aircraft?', shownAs: 'Applicant type' }]);
+  });
+
+  test('should use the keys given instead of the legend', () => {
+    const diff = SummaryRows.diff(
+      SummaryRows.derive(entered, { keys: { 'Who is registering the aircraft?': 'Applicant type' } }),
+      { 'Applicant type': 'A company or organisation', 'Manufacturer': 'Cessna', 'Date of manufacture': '2 March 1991' }
+    );
+
+    expect(diff.mismatched).toEqual([{ key: 'Applicant type', expected: 'An individual', actual: 'A company or organisation' }]);
+  });
+
+  test('should still report a row as missing when no shown row has its answer', () => {
+    const diff = SummaryRows.diff(SummaryRows.derive(entered), {
+      'Applicant type': 'A company or organisation',
+      'Manufacturer': 'Cessna',
+      'Date of manufacture': '2 March 1991'
+    });
+
+    expect(diff.missing).toEqual(['Who is registering the aircraft?']);
+    expect(diff.unexpected).toEqual(['Applicant type']);
+  });
+
+  test('should not guess which row is which when more than one question is shown under another key', () => {
+    const questions: EnteredStep[] = [{
+      step: 0,
+      heading: 'About the aircraft',
+      fields: [
+        { label: 'Is the aircraft new?', kind: 'radios', value: 'Yes' },
+        { label: 'Is the aircraft already registered?', kind: 'radios', value: 'No' }
+      ]
+    }];
+
+    // Shown swapped - each answer is under the other question's row
+    const diff = SummaryRows.diff(SummaryRows.derive(questions), { 'New aircraft': 'No', 'Registered': 'Yes' });
+
+    expect(diff.matchedByValue).toEqual([]);
+    expect(diff.ambiguous).toEqual([
+      { key: 'Is the aircraft new?', candidates: ['Registered'] },
+      { key: 'Is the aircraft already registered?', candidates: ['New aircraft'] }
+    ]);
+    expect(SummaryRows.failed(diff)).toBe(true);
+  });
+
+  test('should describe rows matched by value', () => {
+    const diff = SummaryRows.diff(SummaryRows.derive(entered), {
+      'Applicant type': 'An individual',
+      'Manufacturer': 'Cessna',
+      'Date of manufacture': '2 March 1991'
+    });
+
+    expect(SummaryRows.failed(diff)).toBe(false);
+    expect(SummaryRows.describe(diff)).toContain('"Who is registering the aircraft?" matched by its answer to row "Applicant type"');
+  });
+});
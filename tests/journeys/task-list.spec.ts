@@ -0,0 +1,148 @@
+import { test, expect } from '../../fixtures/base.fixture';
+import { JourneyBuilder } from '../../helpers/JourneyBuilder';
+import { GovUKPatternBlocks, TASK_STATUS_HISTORY_KEY } from '../../helpers/GovUKPatternBlocks';
+import { TaskListDriver } from '../../helpers/TaskListDriver';
+import { FieldValue } from '../../helpers/FieldControl';
+
+/**
+ * Task List Pattern Tests
+ * Runs the task list driver and blocks against an isolated task list page,
+ * served by a route handler, whose tasks unlock as earlier ones are completed
+ */
+test.describe('Task list pattern @journey', () => {
+  const FIXTURE_PATH = '/test-fixtures/task-list';
+
+  test.beforeEach(async ({ page }) => {
+    await page.route(`**${FIXTURE_PATH}`, route => route.fulfill({ contentType: 'text/html', body: taskListPage() }));
+  });
+
+  test('should read each task with its section, status and whether it can be started', async ({
+    page,
+    journeyRunner
+  }) => {
+    await journeyRunner.startJourney(FIXTURE_PATH);
+
+    expect(await new TaskListDriver(page).readTasks()).toEqual([
+      { name: 'Aircraft details', section: 'Prepare application', status: 'Not started', canStart: true },
+      { name: 'Owner details', section: 'Prepare application', status: 'Cannot start yet', canStart: false },
+      { name: 'Check and submit', section: 'Apply', status: 'Cannot start yet', canStart: false }
+    ]);
+  });
+
+  test('should complete tasks in order and record each status change in the data store', async ({
+    page,
+    journeyRunner,
+    componentHelper
+  }) => {
+    const builder = new JourneyBuilder(page, journeyRunner, componentHelper)
+      .addCustomStep(async ({ journeyRunner }) => {
+        await journeyRunner.startJourney(FIXTURE_PATH);
+      })
+      .addStep(GovUKPatternBlocks.verifyTaskList({
+        'Aircraft details': 'Not started',
+        'Owner details': 'Cannot start yet',
+        'Check and submit': 'Cannot start yet'
+      }), 'check the starting statuses')
+      .addStep(GovUKPatternBlocks.completeTask('Aircraft details',
+        task => answerTask(task, { 'Manufacturer': 'Cessna' }, true),
+        { unlocks: ['Owner details'] }), 'complete aircraft details')
+      .addStep(GovUKPatternBlocks.startTask('Owner details',
+        task => answerTask(task, { 'Full name': 'Amelia Earhart' }, false)), 'start owner details')
+      .addStep(GovUKPatternBlocks.completeTask('Owner details',
+        task => answerTask(task, { 'Full name': 'Amelia Earhart' }, true),
+        { unlocks: ['Check and submit'] }), 'complete owner details')
+      .addStep(GovUKPatternBlocks.verifyTaskTransitions('Aircraft details', ['Not started', 'Completed']))
+      .addStep(GovUKPatternBlocks.verifyTaskTransitions('Owner details', ['Cannot start yet', 'Not started', 'In progress', 'Completed']));
+
+    await builder.execute();
+
+    expect(builder.getStore().producerOf(TASK_STATUS_HISTORY_KEY)).toBe('task "Owner details"');
+    expect(builder.getStore().find(TASK_STATUS_HISTORY_KEY)?.['Check and submit']).toEqual(['Cannot start yet', 'Not started']);
+  });
+});
+
+/**
+ * Fill a task's question page, then answer whether the task is complete
+ */
+function answerTask(builder: JourneyBuilder, fields: Record<string, FieldValue>, completed: boolean): JourneyBuilder {
+  return builder.addCustomStep(async ({ journeyRunner }) => {
+    await journeyRunner.fillAndContinue(fields);
+    await journeyRunner.selectRadioAndContinue(completed ? "Yes, I've completed this section" : "No, I'll come back to it later");
+  });
+}
+
+/**
+ * A client-side task list: each task is one question page followed by
+ * "Have you completed this section?", and tasks after the first cannot be
+ * started until the ones before them are completed. State is kept in
+ * sessionStorage, so reloading the page keeps it.
+ */
+function taskListPage(): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head><meta charset="UTF-8"><title>Register an aircraft</title></head>
+    <body class="govuk-template__body">
+      <main class="govuk-main-wrapper" id="main-content"></main>
+      <script>
+        const tasks = [
+          { name: 'Aircraft details', section: 'Prepare application', field: 'Manufacturer', after: [] },
+          { name: 'Owner details', section: 'Prepare application', field: 'Full name', after: ['Aircraft details'] },
+          { name: 'Check and submit', section: 'Apply', field: 'Declaration', after: ['Aircraft details', 'Owner details'] }
+        ];
+        const main = document.getElementById('main-content');
+        const statuses = JSON.parse(sessionStorage.getItem('taskStatuses') || '{}');
+
+        function statusOf(task) {
+          if (statuses[task.name]) { return statuses[task.name]; }
+          return task.after.every(name => statuses[name] === 'Completed') ? 'Not started' : 'Cannot start yet';
+        }
+
+        function show(html) {
+          history.pushState({}, '', location.pathname);
+          main.innerHTML = html;
+        }
+
+        function showTaskList() {
+          const sections = [...new Set(tasks.map(task => task.section))];
+          show('<h1 class="govuk-heading-l">Register an aircraft</h1>' + sections.map(section =>
+            '<h2 class="govuk-heading-m">' + section + '</h2><ul class="govuk-task-list">' +
+            tasks.filter(task => task.section === section).map(task => {
+              const status = statusOf(task);
+              const name = status === 'Cannot start yet'
+                ? '<div>' + task.name + '</div>'
+                : '<a class="govuk-link govuk-task-list__link" href="#" onclick="showQuestion(\\'' + task.name + '\\'); return false">' + task.name + '</a>';
+              return '<li class="govuk-task-list__item"><div class="govuk-task-list__name-and-hint">' + name + '</div>' +
+                '<div class="govuk-task-list__status">' + status + '</div></li>';
+            }).join('') + '</ul>').join(''));
+        }
+
+        function showQuestion(taskName) {
+          const task = tasks.find(candidate => candidate.name === taskName);
+          show('<h1 class="govuk-heading-l">' + task.name + '</h1>' +
+            '<div class="govuk-form-group"><label class="govuk-label" for="answer">' + task.field + '</label>' +
+            '<input class="govuk-input" id="answer" type="text"></div>' +
+            '<button class="govuk-button" onclick="showCompleted(\\'' + task.name + '\\')">Continue</button>');
+        }
+
+        function showCompleted(taskName) {
+          show('<h1 class="govuk-heading-l">Have you completed this section?</h1>' +
+            '<div class="govuk-form-group"><fieldset class="govuk-fieldset"><legend class="govuk-fieldset__legend">Have you completed this section?</legend>' +
+            '<div class="govuk-radios"><input type="radio" id="yes" name="completed" value="Yes"><label for="yes">Yes, I\\'ve completed this section</label>' +
+            '<input type="radio" id="no" name="completed" value="No"><label for="no">No, I\\'ll come back to it later</label></div></fieldset></div>' +
+            '<button class="govuk-button" onclick="saveStatus(\\'' + taskName + '\\')">Continue</button>');
+        }
+
+        function saveStatus(taskName) {
+          const completed = document.querySelector('input[name="completed"]:checked')?.value === 'Yes';
+          statuses[taskName] = completed ? 'Completed' : 'In progress';
+          sessionStorage.setItem('taskStatuses', JSON.stringify(statuses));
+          showTaskList();
+        }
+
+        showTaskList();
+      </script>
+    </body>
+    </html>
+  `;
+}
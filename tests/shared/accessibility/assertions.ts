@@ -3,7 +3,8 @@
  * Reusable assertions for accessibility testing
  */
 
-import { expect } from '@playwright/test';
+import { Page, expect } from '@playwright/test';
+import { FocusManagement } from '../../../helpers/FocusManagement';
 
 /**
  * Assert that there are no accessibility violations
@@ -180,3 +181,20 @@ export function assertScanSummary(
     expect(summary.passes).toBeGreaterThanOrEqual(expectations.minPasses);
   }
 }
+
+/**
+ * Assert that the error summary has focus, as after a failed submit
+ */
+export async function assertErrorSummaryFocused(page: Page) {
+  const record = await FocusManagement.check(page, 'failed-submit', { fullPageLoad: false });
+  expect(record.passed, FocusManagement.describe(record)).toBe(true);
+}
+
+/**
+ * Assert that focus moved to the new page after navigation - its h1, main
+ * content or skip link, or the document itself after a full page load
+ */
+export async function assertFocusAfterNavigation(page: Page, options: { fullPageLoad?: boolean } = {}) {
+  const record = await FocusManagement.check(page, 'continue', { fullPageLoad: options.fullPageLoad ?? false });
+  expect(record.passed, FocusManagement.describe(record)).toBe(true);
+}
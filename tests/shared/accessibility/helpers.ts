@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
 import AxeBuilder from '@axe-core/playwright';
+import { AccessibilityReport } from '../../../helpers/AccessibilityReport';
 
 /**
  * Shared Accessibility Helper
@@ -11,6 +12,7 @@ export class AccessibilityHelper {
 
   /**
    * Run axe accessibility scan on current page
+   * The results are attached to the running test for the accessibility report
    */
   async scanPage(options?: {
     includeTags?: string[];
@@ -33,7 +35,9 @@ export class AccessibilityHelper {
       builder.options({ rules: options.rules });
     }
 
-    return await builder.analyze();
+    const results = await builder.analyze();
+    await AccessibilityReport.attachScan(this.page, results);
+    return results;
   }
 
   /**
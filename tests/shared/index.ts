@@ -27,7 +27,17 @@ export {
   validationErrorResponseSchema,
   successResponseSchema,
   helicopterDataSchema,
-  planeDataSchema
+  planeDataSchema,
+  journeyDefinitionSchema,
+  journeysFileSchema,
+  storyDocumentSchema,
+  describeSchemaIssues,
+  parseWithSchema
+} from './validation/schemas';
+
+export type {
+  JourneyDefinition,
+  StoryDocument
 } from './validation/schemas';
 
 // Assertions
@@ -98,7 +108,9 @@ export {
   assertHeadingStructure,
   assertNoKeyboardTraps,
   assertSemanticHTML,
-  assertScanSummary
+  assertScanSummary,
+  assertErrorSummaryFocused,
+  assertFocusAfterNavigation
 } from './accessibility/assertions';
 
 // ============================================================================
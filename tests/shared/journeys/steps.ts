@@ -64,7 +64,7 @@ export class JourneySteps {
    * Review and submit on Check Your Answers page
    */
   async reviewAndSubmit(): Promise<void> {
-    await this.runner.assertOnStep('Check your answers');
+    await this.runner.assertOnStep('Check your answers', { exact: false });
     await this.runner.submit();
   }
 
@@ -74,6 +74,192 @@ export const planeDataSchema = z.object({
   'telephone-number': phoneSchema
 });
 
+/**
+ * Journey definition field schema (test-data/journeys.json)
+ */
+export const journeyFieldSchema = z.object({
+  type: z.enum(['text', 'email', 'tel', 'date', 'textarea', 'radios', 'checkboxes']),
+  name: z.string().min(1),
+  label: z.string().min(1).optional(),
+  options: z.array(z.string().min(1)).min(1).optional()
+}).superRefine((field, ctx) => {
+  const isChoice = field.type === 'radios' || field.type === 'checkboxes';
+  if (isChoice && !field.options) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: `${field.type} fields need at least one option` });
+  }
+  if (!isChoice && !field.label) {
+    ctx.addIssue({ code: 'custom', path: ['label'], message: `${field.type} fields need a label to find the input by` });
+  }
+});
+
+/**
+ * Journey definition step schema
+ */
+export const journeyStepSchema = z.object({
+  name: z.string().min(1),
+  heading: z.string().min(1),
+  fields: z.array(journeyFieldSchema).optional(),
+  next: z.record(z.string(), z.string().min(1)).optional()
+}).superRefine((step, ctx) => {
+  if (!step.next) {
+    return;
+  }
+  const choiceField = step.fields?.find(field => field.type === 'radios');
+  if (!choiceField) {
+    ctx.addIssue({ code: 'custom', path: ['next'], message: 'next routes by radio option, but this step has no radios field' });
+    return;
+  }
+  for (const option of Object.keys(step.next)) {
+    if (!choiceField.options?.includes(option)) {
+      ctx.addIssue({ code: 'custom', path: ['next', option], message: `"${option}" is not an option of "${choiceField.name}"` });
+    }
+  }
+  for (const option of choiceField.options || []) {
+    if (!(option in step.next)) {
+      ctx.addIssue({ code: 'custom', path: ['next'], message: `next must name a step for every option of "${choiceField.name}" - "${option}" has none` });
+    }
+  }
+});
+
+/**
+ * Journey definition schema
+ */
+export const journeyDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Journey ids are lowercase kebab-case'),
+  name: z.string().min(1),
+  path: z.string().startsWith('/'),
+  steps: z.array(journeyStepSchema).min(1)
+}).superRefine((journey, ctx) => {
+  const stepNames = journey.steps.map(step => step.name);
+
+  journey.steps.forEach((step, index) => {
+    if (stepNames.indexOf(step.name) !== index) {
+      ctx.addIssue({ code: 'custom', path: ['steps', index, 'name'], message: `Duplicate step name "${step.name}"` });
+    }
+    for (const [option, target] of Object.entries(step.next || {})) {
+      if (!stepNames.includes(target)) {
+        ctx.addIssue({ code: 'custom', path: ['steps', index, 'next', option], message: `Unknown step "${target}"` });
+      }
+    }
+  });
+});
+
+/**
+ * Journey definitions file schema (test-data/journeys.json)
+ */
+export const journeysFileSchema = z.object({
+  journeys: z.array(journeyDefinitionSchema)
+});
+
+/**
+ * Story page field schema (stories/json pageDetails)
+ */
+export const storyFieldSchema = z.object({
+  type: z.enum(['text', 'email', 'tel', 'date', 'textarea', 'select', 'radios', 'checkboxes']),
+  label: z.string().min(1),
+  name: z.string().min(1).optional(),
+  value: z.union([z.string(), z.array(z.string().min(1)).min(1)]).optional()
+}).superRefine((field, ctx) => {
+  if (field.type === 'radios' && typeof field.value !== 'string') {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: 'radios fields need a string value naming the option to select' });
+  }
+  if (field.type === 'checkboxes' && !Array.isArray(field.value)) {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: 'checkboxes fields need an array value listing the options to check' });
+  }
+  if (field.type !== 'checkboxes' && Array.isArray(field.value)) {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: `${field.type} fields need a string value` });
+  }
+});
+
+/**
+ * Story page details schema
+ */
+export const storyPageDetailsSchema = z.object({
+  heading: z.string().min(1),
+  fields: z.array(storyFieldSchema).optional()
+});
+
+/**
+ * Story test scenario schema
+ */
+export const storyTestScenarioSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  steps: z.array(z.string()).optional(),
+  expectedResult: z.string().optional(),
+  pageIds: z.array(z.string().min(1)).min(1),
+  componentTypes: z.array(z.string().min(1)),
+  priority: z.string().optional(),
+  tags: z.array(z.string()).optional()
+});
+
+/**
+ * Story schema
+ */
+export const storySchema = z.object({
+  id: z.string().min(1),
+  journeyId: z.string().min(1),
+  title: z.string().min(1),
+  testScenarios: z.array(storyTestScenarioSchema),
+  pages: z.array(z.string().min(1)).min(1),
+  components: z.array(z.object({ type: z.string(), count: z.number().int().nonnegative() })).optional(),
+  tags: z.array(z.string()).optional()
+}).superRefine((story, ctx) => {
+  story.testScenarios.forEach((scenario, scenarioIndex) => {
+    scenario.pageIds.forEach((pageId, pageIndex) => {
+      if (!story.pages.includes(pageId)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['testScenarios', scenarioIndex, 'pageIds', pageIndex],
+          message: `Page "${pageId}" is not one of the story's pages`
+        });
+      }
+    });
+  });
+});
+
+/**
+ * Story document schema (stories/json/*.json)
+ */
+export const storyDocumentSchema = z.object({
+  journeyId: z.string().regex(/^[a-z0-9-]+$/, 'Journey ids are lowercase kebab-case'),
+  journeyTitle: z.string().min(1),
+  journeyPath: z.string().startsWith('/').optional(),
+  generatedAt: z.string().optional(),
+  totalPages: z.number().int().nonnegative().optional(),
+  totalComponents: z.number().int().nonnegative().optional(),
+  pageDetails: z.record(z.string(), storyPageDetailsSchema).optional(),
+  stories: z.array(storySchema)
+}).superRefine((document, ctx) => {
+  const pages = new Set(document.stories.flatMap(story => story.pages));
+
+  for (const pageId of Object.keys(document.pageDetails || {})) {
+    if (!pages.has(pageId)) {
+      ctx.addIssue({ code: 'custom', path: ['pageDetails', pageId], message: `Page "${pageId}" is not used by any story` });
+    }
+  }
+
+  document.stories.forEach((story, index) => {
+    if (story.journeyId !== document.journeyId) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['stories', index, 'journeyId'],
+        message: `Story belongs to "${story.journeyId}" but the document is for "${document.journeyId}"`
+      });
+    }
+  });
+});
+
+export type JourneyFieldDefinition = z.infer<typeof journeyFieldSchema>;
+export type JourneyStepDefinition = z.infer<typeof journeyStepSchema>;
+export type JourneyDefinition = z.infer<typeof journeyDefinitionSchema>;
+export type StoryField = z.infer<typeof storyFieldSchema>;
+export type StoryPageDetails = z.infer<typeof storyPageDetailsSchema>;
+export type StoryTestScenario = z.infer<typeof storyTestScenarioSchema>;
+export type Story = z.infer<typeof storySchema>;
+export type StoryDocument = z.infer<typeof storyDocumentSchema>;
+
 /**
  * Validate that an object matches a schema
  */
@@ -94,3 +280,34 @@ export function assertSchema<T>(schema: z.ZodSchema<T>, data: unknown, message?:
     throw new Error(message || `Schema validation failed: ${result.errors?.message}`);
   }
 }
+
+/**
+ * Format a schema issue path as a JSON path, e.g. `$.journeys[0].steps[2].heading`
+ */
+export function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') {
+      return `${result}[${segment}]`;
+    }
+    const key = String(segment);
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${result}.${key}` : `${result}[${JSON.stringify(key)}]`;
+  }, '$');
+}
+
+/**
+ * Describe every schema issue as `<json path>: <message>`
+ */
+export function describeSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${formatIssuePath(issue.path)}: ${issue.message}`);
+}
+
+/**
+ * Parse data against a schema, throwing an error that lists every issue with its JSON path
+ */
+export function parseWithSchema<T>(schema: z.ZodSchema<T>, data: unknown, source: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid ${source}:\n${describeSchemaIssues(result.error).map(line => `  ${line}`).join('\n')}`);
+  }
+  return result.data;
+}